@@ -47,6 +47,25 @@ export default () => ({
     },
   },
   
+  sync: {
+    // The only scheduler of syncs; disable to run them from the admin endpoints alone
+    schedulerEnabled: process.env.SYNC_SCHEDULER_ENABLED !== 'false',
+  },
+  
+  reconciliation: {
+    // 'priority' takes each field from the highest-ranked source that has it;
+    // 'weighted' averages every source that has it using the weights below
+    strategy: process.env.RECONCILIATION_STRATEGY || 'weighted',
+    // SOURCE:weight pairs, highest priority first
+    sources: process.env.RECONCILIATION_SOURCES || 'MANUAL:3,HUD:2,CENSUS:1,FRED:1',
+  },
+  
+  affordability: {
+    // Mortgage rate (%) used when a request gives none and the FRED 30-year
+    // fixed rate series is not loaded
+    defaultMortgageRate: parseFloat(process.env.DEFAULT_MORTGAGE_RATE) || 7,
+  },
+  
   email: {
     host: process.env.SMTP_HOST || 'localhost',
     port: parseInt(process.env.SMTP_PORT, 10) || 1025,
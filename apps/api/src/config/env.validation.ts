@@ -1,5 +1,5 @@
 import { plainToInstance } from 'class-transformer';
-import { IsEnum, IsNumber, IsString, validateSync, IsOptional, IsUrl } from 'class-validator';
+import { IsEnum, IsNumber, IsString, validateSync, IsOptional, IsUrl, IsIn, Matches } from 'class-validator';
 
 enum Environment {
   Development = 'development',
@@ -50,6 +50,10 @@ class EnvironmentVariables {
   @IsOptional()
   HUD_API_KEY: string;
 
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  HUD_API_URL: string;
+
   @IsString()
   @IsOptional()
   CENSUS_API_KEY: string;
@@ -57,6 +61,18 @@ class EnvironmentVariables {
   @IsString()
   @IsOptional()
   FRED_API_KEY: string;
+
+  @IsIn(['true', 'false'])
+  @IsOptional()
+  SYNC_SCHEDULER_ENABLED: string;
+
+  @IsIn(['priority', 'weighted'])
+  @IsOptional()
+  RECONCILIATION_STRATEGY: string;
+
+  @Matches(/^[A-Z]+:\d+(\.\d+)?(,[A-Z]+:\d+(\.\d+)?)*$/)
+  @IsOptional()
+  RECONCILIATION_SOURCES: string;
 }
 
 export function validate(config: Record<string, unknown>) {
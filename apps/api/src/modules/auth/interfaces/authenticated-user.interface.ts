@@ -0,0 +1,4 @@
+import { User } from '@prisma/client';
+
+/** The user JwtStrategy attaches to the request. */
+export type AuthenticatedUser = Pick<User, 'id' | 'email' | 'name' | 'role' | 'emailVerified'>;
@@ -0,0 +1,155 @@
+import { DataSource } from '@prisma/client';
+import { DataIngestionService } from '../services/data-ingestion.service';
+import {
+  DataSourceAdapter,
+  RejectedRecord,
+  SyncPartition,
+  ValidationResult,
+} from '../interfaces/data-source-adapter.interface';
+import {
+  HousingRecord,
+  IngestionResult,
+  RentRecord,
+  SourceRecords,
+  SyncScope,
+  emptySourceRecords,
+} from '../interfaces/source-records.interface';
+
+const FIPS_PATTERN = /^\d{5}$/;
+
+/**
+ * Shared normalize/validate/persist behaviour for adapters. Subclasses only
+ * describe the feed and implement `fetch` and `normalize`.
+ */
+export abstract class BaseDataSourceAdapter<TRaw = SourceRecords> implements DataSourceAdapter<TRaw> {
+  abstract readonly name: string;
+  abstract readonly source: DataSource;
+  abstract readonly cadence: string;
+  abstract readonly metrics: string[];
+
+  constructor(protected readonly dataIngestionService: DataIngestionService) {}
+
+  /** Splits a sync into one checkpointed partition per state. */
+  partition(scope: SyncScope): SyncPartition[] {
+    return scope.states.map((state) => ({
+      key: state,
+      scope: {
+        ...scope,
+        states: [state],
+        counties: scope.counties.filter((county) => county.stateCode === state),
+      },
+    }));
+  }
+
+  abstract fetch(scope: SyncScope): Promise<TRaw>;
+
+  abstract normalize(raw: TRaw, scope: SyncScope): SourceRecords;
+
+  validate(records: SourceRecords): ValidationResult {
+    const rejected: RejectedRecord[] = [];
+    const valid = emptySourceRecords();
+
+    const keep = <T>(items: T[], target: T[], check: (item: T) => string | null, key: (item: T) => string) => {
+      for (const item of items) {
+        const reason = check(item);
+        if (reason) {
+          rejected.push({ key: key(item), reason });
+        } else {
+          target.push(item);
+        }
+      }
+    };
+
+    const periodKey = (record: { fipsCode: string; year: number; month: number }) =>
+      `${record.fipsCode} ${record.year}-${String(record.month).padStart(2, '0')}`;
+
+    keep(records.counties, valid.counties, (record) => this.checkFips(record.fipsCode), (record) => record.fipsCode);
+    keep<HousingRecord>(
+      records.housing,
+      valid.housing,
+      (record) =>
+        this.checkFips(record.fipsCode) ??
+        this.checkPeriod(record.year, record.month) ??
+        this.checkPositive('medianHomePrice', record.medianHomePrice),
+      periodKey,
+    );
+    keep<RentRecord>(
+      records.rent,
+      valid.rent,
+      (record) =>
+        this.checkFips(record.fipsCode) ??
+        this.checkPeriod(record.year, record.month) ??
+        this.checkPositive('medianRent', record.medianRent),
+      periodKey,
+    );
+    keep(
+      records.trends,
+      valid.trends,
+      (record) => this.checkFips(record.fipsCode) ?? this.checkPeriod(record.year, record.month),
+      periodKey,
+    );
+    keep(
+      records.incomeLimits,
+      valid.incomeLimits,
+      (record) =>
+        this.checkFips(record.fipsCode) ??
+        this.checkPeriod(record.year, 1) ??
+        this.checkPositive('householdSize', record.householdSize) ??
+        this.checkPositive('lowLimit', record.lowLimit),
+      (record) => `${record.fipsCode} ${record.year} size ${record.householdSize}`,
+    );
+    keep(
+      records.economic,
+      valid.economic,
+      (record) =>
+        Number.isFinite(record.value) && !Number.isNaN(new Date(record.date).getTime())
+          ? null
+          : 'invalid date or value',
+      (record) => `${record.seriesId}/${record.geography} ${new Date(record.date).toISOString()}`,
+    );
+
+    return { records: valid, rejected };
+  }
+
+  persist(records: SourceRecords, syncLogId?: string): Promise<IngestionResult> {
+    return this.dataIngestionService.persist(records, syncLogId);
+  }
+
+  /** Pads FIPS codes and fills derived period fields. */
+  protected standardize(records: SourceRecords): SourceRecords {
+    const fips = <T extends { fipsCode: string }>(record: T): T => ({
+      ...record,
+      fipsCode: String(record.fipsCode).trim().padStart(5, '0'),
+    });
+    const quarter = <T extends { month: number; quarter?: number | null }>(record: T): T => ({
+      ...record,
+      quarter: record.quarter ?? Math.ceil(record.month / 3),
+    });
+
+    return {
+      counties: records.counties.map(fips),
+      housing: records.housing.map(fips).map(quarter),
+      rent: records.rent.map(fips).map(quarter),
+      trends: records.trends.map(fips),
+      incomeLimits: records.incomeLimits.map(fips),
+      economic: records.economic.map((record) => ({
+        ...record,
+        geography: record.geography.toUpperCase(),
+      })),
+    };
+  }
+
+  private checkFips(fipsCode: string): string | null {
+    return FIPS_PATTERN.test(fipsCode) ? null : `invalid FIPS code "${fipsCode}"`;
+  }
+
+  private checkPeriod(year: number, month: number): string | null {
+    if (!Number.isInteger(year) || year < 1900 || year > 2100) return `invalid year ${year}`;
+    if (!Number.isInteger(month) || month < 1 || month > 12) return `invalid month ${month}`;
+    return null;
+  }
+
+  private checkPositive(field: string, value: number): string | null {
+    return Number.isFinite(value) && value > 0 ? null : `${field} must be a positive number`;
+  }
+}
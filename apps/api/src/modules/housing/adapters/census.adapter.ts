@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from '@prisma/client';
+import { BaseDataSourceAdapter } from './base-data-source.adapter';
+import { CensusApiService } from '../services/census-api.service';
+import { DataIngestionService } from '../services/data-ingestion.service';
+import { SourceRecords, SyncScope } from '../interfaces/source-records.interface';
+
+@Injectable()
+export class CensusDataSourceAdapter extends BaseDataSourceAdapter {
+  readonly name = 'CENSUS';
+  readonly source = DataSource.CENSUS;
+  // ACS 5-year estimates are released each December
+  readonly cadence = '0 3 15 12 *';
+  readonly metrics = [
+    'County.population',
+    'County.medianIncome',
+    'County.acsEstimates',
+  ];
+
+  constructor(
+    private censusApiService: CensusApiService,
+    dataIngestionService: DataIngestionService,
+  ) {
+    super(dataIngestionService);
+  }
+
+  fetch(scope: SyncScope): Promise<SourceRecords> {
+    return this.censusApiService.fetchSyncRecords(scope);
+  }
+
+  normalize(raw: SourceRecords): SourceRecords {
+    return this.standardize(raw);
+  }
+}
@@ -0,0 +1,54 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  DATA_SOURCE_ADAPTERS,
+  DataSourceAdapter,
+  DataSourceAdapterInfo,
+} from '../interfaces/data-source-adapter.interface';
+
+@Injectable()
+export class DataSourceRegistry {
+  private readonly logger = new Logger(DataSourceRegistry.name);
+  private readonly adapters = new Map<string, DataSourceAdapter>();
+
+  constructor(@Inject(DATA_SOURCE_ADAPTERS) adapters: DataSourceAdapter[]) {
+    adapters.forEach((adapter) => this.register(adapter));
+  }
+
+  register(adapter: DataSourceAdapter) {
+    const key = adapter.name.toUpperCase();
+
+    if (this.adapters.has(key)) {
+      throw new Error(`Data source adapter "${adapter.name}" is already registered`);
+    }
+
+    this.adapters.set(key, adapter);
+    this.logger.log(`Registered data source adapter: ${adapter.name}`);
+  }
+
+  has(name: string): boolean {
+    return this.adapters.has(name.toUpperCase());
+  }
+
+  get(name: string): DataSourceAdapter {
+    const adapter = this.adapters.get(name.toUpperCase());
+
+    if (!adapter) {
+      throw new Error(`No data source adapter registered for "${name}"`);
+    }
+
+    return adapter;
+  }
+
+  names(): string[] {
+    return Array.from(this.adapters.values()).map((adapter) => adapter.name);
+  }
+
+  list(): DataSourceAdapterInfo[] {
+    return Array.from(this.adapters.values()).map(({ name, source, cadence, metrics }) => ({
+      name,
+      source,
+      cadence,
+      metrics,
+    }));
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from '@prisma/client';
+import { BaseDataSourceAdapter } from './base-data-source.adapter';
+import { FRED_SERIES, FredApiService, NATIONAL_GEOGRAPHY } from '../services/fred-api.service';
+import { DataIngestionService } from '../services/data-ingestion.service';
+import { SourceRecords, SyncScope } from '../interfaces/source-records.interface';
+import { SyncPartition } from '../interfaces/data-source-adapter.interface';
+
+@Injectable()
+export class FredDataSourceAdapter extends BaseDataSourceAdapter {
+  readonly name = 'FRED';
+  readonly source = DataSource.FRED;
+  // Freddie Mac publishes the weekly mortgage rate survey on Thursdays
+  readonly cadence = '0 4 * * 4';
+  readonly metrics = [
+    `EconomicObservation.${FRED_SERIES.MORTGAGE_30Y}`,
+    `EconomicObservation.${FRED_SERIES.CPI}`,
+    `EconomicObservation.${FRED_SERIES.HOUSE_PRICE_INDEX}`,
+  ];
+
+  constructor(
+    private fredApiService: FredApiService,
+    dataIngestionService: DataIngestionService,
+  ) {
+    super(dataIngestionService);
+  }
+
+  // National series are fetched alongside the state HPIs in one short pass,
+  // so FRED is checkpointed as a single unit
+  partition(scope: SyncScope): SyncPartition[] {
+    return [{ key: NATIONAL_GEOGRAPHY, scope }];
+  }
+
+  fetch(scope: SyncScope): Promise<SourceRecords> {
+    return this.fredApiService.fetchSyncRecords(scope);
+  }
+
+  normalize(raw: SourceRecords): SourceRecords {
+    return this.standardize(raw);
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from '@prisma/client';
+import { BaseDataSourceAdapter } from './base-data-source.adapter';
+import { HudApiService } from '../services/hud-api.service';
+import { DataIngestionService } from '../services/data-ingestion.service';
+import { SourceRecords, SyncScope } from '../interfaces/source-records.interface';
+
+@Injectable()
+export class HudDataSourceAdapter extends BaseDataSourceAdapter {
+  readonly name = 'HUD';
+  readonly source = DataSource.HUD;
+  // FMRs and income limits are annual; a monthly check picks up releases promptly
+  readonly cadence = '0 2 1 * *';
+  readonly metrics = [
+    'RentData.studioRent',
+    'RentData.oneBedRent',
+    'RentData.twoBedRent',
+    'RentData.threeBedRent',
+    'RentData.fourBedRent',
+    'RentData.medianRent',
+    'IncomeLimit',
+  ];
+
+  constructor(
+    private hudApiService: HudApiService,
+    dataIngestionService: DataIngestionService,
+  ) {
+    super(dataIngestionService);
+  }
+
+  fetch(scope: SyncScope): Promise<SourceRecords> {
+    return this.hudApiService.fetchSyncRecords(scope);
+  }
+
+  normalize(raw: SourceRecords): SourceRecords {
+    return this.standardize(raw);
+  }
+}
@@ -19,9 +19,21 @@ export class CountyDataDto {
   @ApiProperty({ required: false })
   population?: number;
 
+  @ApiProperty({ required: false, description: 'ACS 90% margin of error for population' })
+  populationMoe?: number;
+
   @ApiProperty({ required: false })
   medianIncome?: number;
 
+  @ApiProperty({ required: false, description: 'ACS 90% margin of error for median income' })
+  medianIncomeMoe?: number;
+
+  @ApiProperty({ required: false, description: 'ACS 5-year estimates with margins of error' })
+  acsEstimates?: Record<string, { estimate: number | null; moe: number | null; variable: string }>;
+
+  @ApiProperty({ required: false, description: 'Final year of the ACS 5-year period' })
+  acsYear?: number;
+
   @ApiProperty({ required: false })
   currentHousingData?: any;
 
@@ -30,4 +42,10 @@ export class CountyDataDto {
 
   @ApiProperty({ required: false })
   currentTrends?: any;
+
+  @ApiProperty({
+    required: false,
+    description: 'Per-source rows behind the current values (when includeSources=true)',
+  })
+  sources?: { housing: any[]; rent: any[] };
 }
@@ -0,0 +1,27 @@
+import { IsEnum, IsOptional, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum DollarMode {
+  NOMINAL = 'nominal',
+  REAL = 'real',
+}
+
+export class DollarsQueryDto {
+  @ApiProperty({
+    required: false,
+    enum: DollarMode,
+    default: DollarMode.NOMINAL,
+    description: 'Report prices in nominal dollars or CPI-adjusted real dollars',
+  })
+  @IsOptional()
+  @IsEnum(DollarMode)
+  dollars?: DollarMode;
+
+  @ApiProperty({
+    required: false,
+    description: 'Month whose dollars real prices are expressed in (YYYY-MM); defaults to the latest CPI month',
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'base must be a month in YYYY-MM format' })
+  base?: string;
+}
@@ -0,0 +1,45 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { MortgageQueryDto } from './mortgage-query.dto';
+
+// DTI limits are percents, e.g. frontEndDti=28
+export class GetAffordabilityDto extends MortgageQueryDto {
+  @ApiProperty({ required: false, description: 'Annual household income; defaults to the county median' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  income?: number;
+
+  @ApiProperty({
+    required: false,
+    default: 0,
+    description: 'Existing monthly debt payments (car, student loans, cards)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  monthlyDebts: number = 0;
+
+  @ApiProperty({ required: false, default: 28, description: 'Front-end DTI limit: housing payment / income (%)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  frontEndDti: number = 28;
+
+  @ApiProperty({
+    required: false,
+    default: 36,
+    description: 'Back-end DTI limit: housing payment plus debts / income (%)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  backEndDti: number = 36;
+}
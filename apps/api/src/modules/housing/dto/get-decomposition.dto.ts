@@ -0,0 +1,54 @@
+import { IsDate, IsIn, IsOptional, Matches } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { MONTH_PATTERN, TREND_PERIODS } from './get-market-trends.dto';
+import { HOUSING_SERIES_FIELDS, RENT_SERIES_FIELDS } from '../utils/series.utils';
+
+export const DECOMPOSITION_METRICS = [
+  ...HOUSING_SERIES_FIELDS.mean,
+  ...HOUSING_SERIES_FIELDS.sum,
+  ...RENT_SERIES_FIELDS.mean,
+  ...RENT_SERIES_FIELDS.sum,
+];
+
+export class GetDecompositionDto {
+  @ApiProperty({ enum: DECOMPOSITION_METRICS, description: 'Housing or rent field to decompose' })
+  @IsIn(DECOMPOSITION_METRICS)
+  metric: string;
+
+  @ApiProperty({
+    required: false,
+    enum: TREND_PERIODS,
+    default: '5y',
+    description: 'Months returned, ending at `to`; ignored when `from` is set. The whole series is decomposed.',
+  })
+  @IsOptional()
+  @IsIn(TREND_PERIODS)
+  period: string = '5y';
+
+  @ApiProperty({ required: false, description: 'First month returned (YYYY-MM)' })
+  @IsOptional()
+  @Matches(MONTH_PATTERN, { message: 'from must be a month in YYYY-MM format' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Last month returned (YYYY-MM); defaults to the current month, or the asOf month',
+  })
+  @IsOptional()
+  @Matches(MONTH_PATTERN, { message: 'to must be a month in YYYY-MM format' })
+  to?: string;
+
+  @ApiProperty({
+    required: false,
+    type: String,
+    format: 'date-time',
+    description:
+      'Decompose the series as it was known at this date. Rows stored before revision history began ' +
+      'are known from their last update at that time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  asOf?: Date;
+}
@@ -0,0 +1,19 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class GetEconomicSeriesDto {
+  @ApiProperty({ required: false, description: 'Geography ("US", state code or county FIPS)' })
+  @IsOptional()
+  @IsString()
+  geography?: string;
+
+  @ApiProperty({ required: false, description: 'Start date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ required: false, description: 'End date (YYYY-MM-DD)' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
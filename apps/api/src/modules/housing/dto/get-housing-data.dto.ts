@@ -1,8 +1,12 @@
-import { IsOptional, IsString, IsNumber, Min, Max, IsEnum } from 'class-validator';
-import { Type } from 'class-transformer';
+import { IsOptional, IsString, IsNumber, Min, Max, IsEnum, IsBoolean, IsDate } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { DataSource } from '@prisma/client';
+import { DollarsQueryDto } from './dollars-query.dto';
 
-export class GetHousingDataDto {
+// Price filters apply to nominal, unadjusted values, also when dollars=real or
+// seasonallyAdjusted=true
+export class GetHousingDataDto extends DollarsQueryDto {
   @ApiProperty({ required: false, description: 'County ID' })
   @IsOptional()
   @IsString()
@@ -43,6 +47,49 @@ export class GetHousingDataDto {
   @Max(12)
   month?: number;
 
+  @ApiProperty({
+    required: false,
+    enum: DataSource,
+    default: DataSource.CALCULATED,
+    description: 'Return rows from a single source instead of the reconciled values',
+  })
+  @IsOptional()
+  @IsEnum(DataSource)
+  source?: DataSource;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Attach the per-source rows behind each reconciled value',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  includeSources: boolean = false;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Remove the seasonal component (STL) of each county series and recompute YoY and MoM changes',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  seasonallyAdjusted: boolean = false;
+
+  @ApiProperty({
+    required: false,
+    type: String,
+    format: 'date-time',
+    description:
+      'Return values as they were known at this date. Rows stored before revision history began ' +
+      'are known from their last update at that time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  asOf?: Date;
+
   @ApiProperty({ required: false, description: 'Page number', default: 1 })
   @IsOptional()
   @Type(() => Number)
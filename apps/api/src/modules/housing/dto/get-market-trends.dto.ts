@@ -0,0 +1,70 @@
+import { IsBoolean, IsDate, IsEnum, IsIn, IsOptional, Matches } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DollarsQueryDto } from './dollars-query.dto';
+
+export const TREND_PERIODS = ['1m', '3m', '6m', '1y', '5y'];
+
+export enum TrendGranularity {
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  ANNUAL = 'annual',
+}
+
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Range, bucketing and dollars shared by county and aggregate trends
+export class TrendRangeQueryDto extends DollarsQueryDto {
+  @ApiProperty({
+    required: false,
+    enum: TREND_PERIODS,
+    default: '1y',
+    description: 'Months covered, ending at `to`; ignored when `from` is set',
+  })
+  @IsOptional()
+  @IsIn(TREND_PERIODS)
+  period: string = '1y';
+
+  @ApiProperty({ required: false, description: 'First month of the range (YYYY-MM)' })
+  @IsOptional()
+  @Matches(MONTH_PATTERN, { message: 'from must be a month in YYYY-MM format' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Last month of the range (YYYY-MM); defaults to the current month, or the asOf month',
+  })
+  @IsOptional()
+  @Matches(MONTH_PATTERN, { message: 'to must be a month in YYYY-MM format' })
+  to?: string;
+
+  @ApiProperty({ required: false, enum: TrendGranularity, default: TrendGranularity.MONTHLY })
+  @IsOptional()
+  @IsEnum(TrendGranularity)
+  granularity: TrendGranularity = TrendGranularity.MONTHLY;
+}
+
+export class GetMarketTrendsDto extends TrendRangeQueryDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Remove the seasonal component (STL) from prices, rents and market metrics before bucketing',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  seasonallyAdjusted: boolean = false;
+
+  @ApiProperty({
+    required: false,
+    type: String,
+    format: 'date-time',
+    description:
+      'Return trends as they were known at this date. Rows stored before revision history began ' +
+      'are known from their last update at that time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  asOf?: Date;
+}
@@ -0,0 +1,36 @@
+import { IsEnum, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DataSource, QuarantineStatus } from '@prisma/client';
+
+export class GetQuarantineDto {
+  @ApiProperty({ required: false, enum: QuarantineStatus, default: QuarantineStatus.PENDING })
+  @IsOptional()
+  @IsEnum(QuarantineStatus)
+  status?: QuarantineStatus;
+
+  @ApiProperty({ required: false, enum: DataSource })
+  @IsOptional()
+  @IsEnum(DataSource)
+  source?: DataSource;
+
+  @ApiProperty({ required: false, description: 'Only records held back by this sync run' })
+  @IsOptional()
+  @IsString()
+  syncLogId?: string;
+
+  @ApiProperty({ required: false, description: 'Page number', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page: number = 1;
+
+  @ApiProperty({ required: false, description: 'Items per page', default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+}
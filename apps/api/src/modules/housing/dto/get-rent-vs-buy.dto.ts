@@ -0,0 +1,130 @@
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DEFAULT_SALT_CAP, DEFAULT_STANDARD_DEDUCTION, TAX_YEAR } from '../utils/rent-vs-buy.utils';
+import { MortgageQueryDto } from './mortgage-query.dto';
+
+// Rates and costs are percents, e.g. appreciationRate=3.5 and sellingCosts=6
+export class GetRentVsBuyDto extends MortgageQueryDto {
+  @ApiProperty({ required: false, default: 10, description: 'Years to compare' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  years: number = 10;
+
+  @ApiProperty({ required: false, description: 'Purchase price; defaults to the county median home price' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  homePrice?: number;
+
+  @ApiProperty({ required: false, description: 'Monthly rent; defaults to the county median rent' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  monthlyRent?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Annual home price appreciation (%); defaults to the county median price CAGR over the last 10 years',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-20)
+  @Max(30)
+  appreciationRate?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Annual rent growth (%); defaults to the county median rent CAGR over the last 10 years',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-20)
+  @Max(30)
+  rentGrowthRate?: number;
+
+  @ApiProperty({ required: false, default: 1, description: 'Annual maintenance (% of home value)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  maintenanceRate: number = 1;
+
+  @ApiProperty({ required: false, default: 3, description: 'Closing costs when buying (% of price)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(20)
+  buyingCosts: number = 3;
+
+  @ApiProperty({ required: false, default: 6, description: 'Agent and closing costs when selling (% of sale price)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(20)
+  sellingCosts: number = 6;
+
+  @ApiProperty({
+    required: false,
+    default: 5,
+    description: 'Annual return on money not put into the home: the opportunity cost of the down payment',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-20)
+  @Max(30)
+  investmentReturn: number = 5;
+
+  @ApiProperty({ required: false, default: 15, description: 'Capital gains tax on investment gains (%)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(50)
+  investmentTaxRate: number = 15;
+
+  @ApiProperty({
+    required: false,
+    default: 22,
+    description: 'Marginal income tax rate applied to itemized mortgage interest and property tax (%)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(60)
+  marginalTaxRate: number = 22;
+
+  @ApiProperty({
+    required: false,
+    default: DEFAULT_STANDARD_DEDUCTION,
+    description: `Standard deduction forgone when itemizing; defaults to the ${TAX_YEAR} married filing jointly amount`,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  standardDeduction?: number;
+
+  @ApiProperty({
+    required: false,
+    default: DEFAULT_SALT_CAP,
+    description: `Cap on the state and local tax deduction, which includes property tax; defaults to the ${TAX_YEAR} cap`,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  saltCap?: number;
+}
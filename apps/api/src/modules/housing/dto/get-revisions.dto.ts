@@ -0,0 +1,55 @@
+import { IsDate, IsEnum, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DataSource } from '@prisma/client';
+
+export enum RevisionDataType {
+  HOUSING = 'housing',
+  RENT = 'rent',
+  TRENDS = 'trends',
+}
+
+export class GetRevisionsDto {
+  @ApiProperty({ required: false, enum: RevisionDataType, description: 'Only revisions of this data type' })
+  @IsOptional()
+  @IsEnum(RevisionDataType)
+  type?: RevisionDataType;
+
+  @ApiProperty({ required: false, enum: DataSource })
+  @IsOptional()
+  @IsEnum(DataSource)
+  source?: DataSource;
+
+  @ApiProperty({ required: false, description: 'Period year' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  year?: number;
+
+  @ApiProperty({ required: false, description: 'Period month (1-12)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(12)
+  month?: number;
+
+  @ApiProperty({
+    required: false,
+    type: String,
+    format: 'date-time',
+    description: 'Only revisions made at or after this date',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  since?: Date;
+
+  @ApiProperty({ required: false, description: 'Maximum revisions returned', default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit: number = 100;
+}
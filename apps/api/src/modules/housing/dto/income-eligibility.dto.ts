@@ -0,0 +1,33 @@
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum AmiCategory {
+  EXTREMELY_LOW = 'EXTREMELY_LOW',
+  VERY_LOW = 'VERY_LOW',
+  LOW = 'LOW',
+  ABOVE_LOW = 'ABOVE_LOW',
+}
+
+export class IncomeEligibilityDto {
+  @ApiProperty({ description: 'Number of people in the household', minimum: 1, maximum: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  householdSize: number;
+
+  @ApiProperty({ description: 'Annual gross household income' })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  income: number;
+
+  @ApiProperty({ required: false, description: 'Income limit year (defaults to latest)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(2000)
+  @Max(2030)
+  year?: number;
+}
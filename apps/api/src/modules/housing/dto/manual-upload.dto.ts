@@ -0,0 +1,149 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum ManualDataType {
+  HOUSING = 'housing',
+  RENT = 'rent',
+}
+
+export class ManualUploadQueryDto {
+  @ApiProperty({ enum: ManualDataType, description: 'Which table the rows are loaded into' })
+  @IsEnum(ManualDataType)
+  dataType: ManualDataType;
+
+  @ApiProperty({
+    required: false,
+    default: true,
+    description: 'Validate and diff only; set to false to commit the upload',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === undefined || obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  dryRun: boolean = true;
+}
+
+// Row shapes mirror the HousingData / RentData columns a spreadsheet may supply
+class ManualRowDto {
+  @Matches(/^\d{5}$/, { message: 'fipsCode must be a 5-digit county FIPS code' })
+  fipsCode: string;
+
+  @IsInt()
+  @Min(1990)
+  @Max(2100)
+  year: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month: number;
+
+  @IsOptional()
+  @IsUrl()
+  sourceUrl?: string;
+}
+
+export class ManualHousingRowDto extends ManualRowDto {
+  @IsNumber()
+  @IsPositive()
+  medianHomePrice: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  averageHomePrice?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  pricePerSqft?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  inventoryCount?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  daysOnMarket?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  salesVolume?: number;
+
+  @IsOptional()
+  @IsNumber()
+  priceChangeYoY?: number;
+
+  @IsOptional()
+  @IsNumber()
+  inventoryChangeYoY?: number;
+}
+
+export class ManualRentRowDto extends ManualRowDto {
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  studioRent?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  oneBedRent?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  twoBedRent?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  threeBedRent?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  fourBedRent?: number;
+
+  @IsNumber()
+  @IsPositive()
+  medianRent: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  averageRent?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  vacancyRate?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  availableUnits?: number;
+
+  @IsOptional()
+  @IsNumber()
+  rentChangeYoY?: number;
+
+  @IsOptional()
+  @IsNumber()
+  vacancyChangeYoY?: number;
+}
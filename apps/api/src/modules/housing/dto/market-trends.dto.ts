@@ -1,12 +1,33 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { TrendGranularity } from './get-market-trends.dto';
+
+interface TrendChange {
+  absolute: number;
+  percentage: number;
+  // Percent per year between the first and last period
+  cagr: number | null;
+  // Largest peak-to-trough decline, percent
+  maxDrawdown: number | null;
+  // Annualized standard deviation of period returns, percent
+  volatility: number | null;
+}
 
 export class MarketTrendsDto {
   @ApiProperty()
   county: any;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Requested period, or "custom" for a from/to range' })
   period: string;
 
+  @ApiProperty({ description: 'First month covered (YYYY-MM)' })
+  from: string;
+
+  @ApiProperty({ description: 'Last month covered (YYYY-MM)' })
+  to: string;
+
+  @ApiProperty({ enum: TrendGranularity })
+  granularity: TrendGranularity;
+
   @ApiProperty({ type: [Object] })
   housingData: any[];
 
@@ -18,13 +39,7 @@ export class MarketTrendsDto {
 
   @ApiProperty({ required: false })
   summary?: {
-    homePriceChange: {
-      absolute: number;
-      percentage: number;
-    };
-    rentChange: {
-      absolute: number;
-      percentage: number;
-    };
+    homePriceChange: TrendChange;
+    rentChange: TrendChange;
   };
 }
@@ -0,0 +1,75 @@
+import { IsIn, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const LOAN_TERMS = [10, 15, 20, 30];
+
+// Rates are percents, e.g. mortgageRate=6.5
+export class MortgageQueryDto {
+  @ApiProperty({
+    required: false,
+    description: 'Annual mortgage rate (%); defaults to the latest FRED 30-year fixed rate',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(25)
+  mortgageRate?: number;
+
+  @ApiProperty({ required: false, enum: LOAN_TERMS, default: 30, description: 'Loan term in years' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(LOAN_TERMS)
+  loanTermYears: number = 30;
+
+  @ApiProperty({ required: false, description: 'Down payment in dollars; overrides downPaymentPercent' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  downPayment?: number;
+
+  @ApiProperty({ required: false, default: 20, description: 'Down payment as a percent of the price' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  downPaymentPercent: number = 20;
+
+  @ApiProperty({ required: false, default: 1.1, description: 'Annual property tax (% of price)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  propertyTaxRate: number = 1.1;
+
+  @ApiProperty({ required: false, default: 0.5, description: 'Annual homeowners insurance (% of price)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  insuranceRate: number = 0.5;
+
+  @ApiProperty({
+    required: false,
+    default: 0.5,
+    description: 'Annual PMI (% of loan), charged when the down payment is under 20%',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  pmiRate: number = 0.5;
+
+  @ApiProperty({ required: false, default: 0, description: 'Monthly HOA dues' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  hoa: number = 0;
+}
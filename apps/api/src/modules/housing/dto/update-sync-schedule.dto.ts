@@ -0,0 +1,19 @@
+import { IsBoolean, IsOptional, IsTimeZone, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateSyncScheduleDto {
+  @ApiProperty({ required: false, example: '0 2 1 * *', description: 'Cron expression (5 or 6 fields)' })
+  @IsOptional()
+  @Matches(/^\s*(\S+\s+){4,5}\S+\s*$/, { message: 'cron must have 5 or 6 space-separated fields' })
+  cron?: string;
+
+  @ApiProperty({ required: false, example: 'America/New_York', description: 'IANA time zone' })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,243 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Patch,
+  Query,
+  Param,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { DataSyncService } from './services/data-sync.service';
+import { ManualUploadService } from './services/manual-upload.service';
+import { ManualUploadQueryDto } from './dto/manual-upload.dto';
+import { ReconciliationService } from './services/reconciliation.service';
+import { DataQualityService } from './services/data-quality.service';
+import { GetQuarantineDto } from './dto/get-quarantine.dto';
+import { SyncScheduleService } from './services/sync-schedule.service';
+import { UpdateSyncScheduleDto } from './dto/update-sync-schedule.dto';
+import { IngestionBatchService } from './services/ingestion-batch.service';
+import { MarketTrendService } from './services/market-trend.service';
+import { ChangeBackfillService } from './services/change-backfill.service';
+import { AggregateService } from './services/aggregate.service';
+import { ForecastService } from './services/forecast.service';
+
+// Sync and data maintenance endpoints. Kept apart from HousingController so
+// that its response cache never applies to them.
+@ApiTags('housing')
+@Controller('housing')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class HousingAdminController {
+  constructor(
+    private readonly dataSyncService: DataSyncService,
+    private readonly manualUploadService: ManualUploadService,
+    private readonly reconciliationService: ReconciliationService,
+    private readonly dataQualityService: DataQualityService,
+    private readonly syncScheduleService: SyncScheduleService,
+    private readonly ingestionBatchService: IngestionBatchService,
+    private readonly marketTrendService: MarketTrendService,
+    private readonly changeBackfillService: ChangeBackfillService,
+    private readonly aggregateService: AggregateService,
+    private readonly forecastService: ForecastService,
+  ) {}
+
+  @Post('sync')
+  @ApiOperation({ summary: 'Trigger data synchronization (Admin only)' })
+  @ApiResponse({ status: 202, description: 'Sync job queued' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async triggerDataSync(@Body() body: { source?: string }) {
+    return this.dataSyncService.triggerSync(body.source);
+  }
+
+  @Post('admin/upload')
+  @ApiOperation({ summary: 'Upload MANUAL housing or rent data from CSV/XLSX (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Dry-run diff and row-level error report' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }))
+  async uploadManualData(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ManualUploadQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.manualUploadService.upload(file, query, user.id);
+  }
+
+  @Post('admin/reconcile')
+  @ApiOperation({ summary: 'Rebuild reconciled CALCULATED housing and rent rows (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Number of reconciled county-months' })
+  @ApiQuery({ name: 'countyId', required: false, description: 'Limit to one county' })
+  async reconcile(@Query('countyId') countyId?: string) {
+    const { reconciled } = await this.reconciliationService.reconcileAndRefresh({
+      countyIds: countyId ? [countyId] : undefined,
+    });
+    return reconciled;
+  }
+
+  @Post('admin/market-trends/compute')
+  @ApiOperation({ summary: 'Recompute derived affordability ratios on market trends (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Number of computed county-months' })
+  @ApiQuery({ name: 'countyId', required: false, description: 'Limit to one county' })
+  async computeMarketTrends(@Query('countyId') countyId?: string) {
+    return this.marketTrendService.compute(countyId ? [countyId] : undefined);
+  }
+
+  @Post('admin/forecasts/compute')
+  @ApiOperation({ summary: 'Refit home price and rent forecasts and their backtests (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Number of fitted and skipped county series' })
+  @ApiQuery({ name: 'countyId', required: false, description: 'Limit to one county' })
+  async computeForecasts(@Query('countyId') countyId?: string) {
+    return this.forecastService.compute(countyId ? [countyId] : undefined);
+  }
+
+  @Post('admin/changes/backfill')
+  @ApiOperation({ summary: 'Recompute YoY and MoM changes on housing and rent rows (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Number of updated housing and rent rows' })
+  @ApiQuery({ name: 'countyId', required: false, description: 'Limit to one county' })
+  async backfillChanges(@Query('countyId') countyId?: string) {
+    return this.changeBackfillService.backfill(countyId ? [countyId] : undefined);
+  }
+
+  @Post('admin/aggregates/rebuild')
+  @ApiOperation({ summary: 'Rebuild state and national aggregate series (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Number of aggregate periods written' })
+  async rebuildAggregates() {
+    return this.aggregateService.rebuild();
+  }
+
+  @Get('admin/batches/:syncLogId')
+  @ApiOperation({ summary: 'Show the rows a sync batch created or updated (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Sync log with change counts by table' })
+  async getIngestionBatch(@Param('syncLogId') syncLogId: string) {
+    return this.ingestionBatchService.getBatch(syncLogId);
+  }
+
+  @Post('admin/batches/:syncLogId/rollback')
+  @ApiOperation({ summary: 'Roll a sync batch back to the prior state (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Rollback summary' })
+  @HttpCode(HttpStatus.OK)
+  async rollbackIngestionBatch(@Param('syncLogId') syncLogId: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.ingestionBatchService.rollback(syncLogId, user.id);
+  }
+
+  @Get('admin/quarantine')
+  @ApiOperation({ summary: 'List records held back by data quality checks (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Quarantined records with reasons' })
+  async getQuarantine(@Query() query: GetQuarantineDto) {
+    return this.dataQualityService.list(query);
+  }
+
+  @Post('admin/quarantine/:id/approve')
+  @ApiOperation({ summary: 'Approve and persist a quarantined record (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Record approved' })
+  @HttpCode(HttpStatus.OK)
+  async approveQuarantined(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.dataQualityService.approve(id, user.id);
+  }
+
+  @Post('admin/quarantine/:id/reject')
+  @ApiOperation({ summary: 'Reject a quarantined record (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Record rejected' })
+  @HttpCode(HttpStatus.OK)
+  async rejectQuarantined(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.dataQualityService.reject(id, user.id);
+  }
+
+  @Get('sync/sources')
+  @ApiOperation({ summary: 'List registered data source adapters (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Data sources with cadence and metrics' })
+  getSyncSources() {
+    return this.dataSyncService.getSources();
+  }
+
+  @Get('sync/schedules')
+  @ApiOperation({ summary: 'List per-source sync schedules (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Sync schedules with next run times' })
+  async getSyncSchedules() {
+    return this.syncScheduleService.list();
+  }
+
+  @Patch('sync/schedules/:source')
+  @ApiOperation({ summary: 'Edit a sync schedule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Updated schedule' })
+  async updateSyncSchedule(
+    @Param('source') source: string,
+    @Body() dto: UpdateSyncScheduleDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.syncScheduleService.update(source, dto, user.id);
+  }
+
+  @Post('sync/schedules/:source/pause')
+  @ApiOperation({ summary: 'Pause a sync schedule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Schedule paused' })
+  @HttpCode(HttpStatus.OK)
+  async pauseSyncSchedule(@Param('source') source: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.syncScheduleService.pause(source, user.id);
+  }
+
+  @Post('sync/schedules/:source/resume')
+  @ApiOperation({ summary: 'Resume a paused sync schedule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Schedule resumed' })
+  @HttpCode(HttpStatus.OK)
+  async resumeSyncSchedule(@Param('source') source: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.syncScheduleService.resume(source, user.id);
+  }
+
+  @Get('sync/failed')
+  @ApiOperation({ summary: 'List failed sync jobs with their checkpoints (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Failed sync jobs' })
+  async getFailedSyncJobs() {
+    return this.dataSyncService.getFailedJobs();
+  }
+
+  @Post('sync/:jobId/retry')
+  @ApiOperation({ summary: 'Retry a failed sync job from its checkpoint (Admin only)' })
+  @ApiResponse({ status: 202, description: 'Sync job re-queued' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async retrySyncJob(@Param('jobId') jobId: string) {
+    return this.dataSyncService.retryJob(jobId);
+  }
+
+  @Delete('sync/:jobId')
+  @ApiOperation({ summary: 'Remove a queued or failed sync job (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Sync job removed' })
+  async removeSyncJob(@Param('jobId') jobId: string) {
+    return this.dataSyncService.removeJob(jobId);
+  }
+
+  @Get('sync/status')
+  @ApiOperation({ summary: 'Get data sync status (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Sync status' })
+  async getSyncStatus() {
+    return this.dataSyncService.getSyncStatus();
+  }
+}
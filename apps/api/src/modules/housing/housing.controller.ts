@@ -1,25 +1,30 @@
 import {
   Controller,
   Get,
-  Post,
   Query,
   Param,
-  Body,
   UseGuards,
   UseInterceptors,
   CacheInterceptor,
-  HttpCode,
-  HttpStatus,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 import { HousingService } from './housing.service';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { OptionalAuthGuard } from '../auth/guards/optional-auth.guard';
 import { GetHousingDataDto } from './dto/get-housing-data.dto';
 import { CountyDataDto } from './dto/county-data.dto';
 import { MarketTrendsDto } from './dto/market-trends.dto';
-import { DataSyncService } from './services/data-sync.service';
+import { IncomeLimitsService } from './services/income-limits.service';
+import { IncomeEligibilityDto } from './dto/income-eligibility.dto';
+import { EconomicDataService } from './services/economic-data.service';
+import { GetEconomicSeriesDto } from './dto/get-economic-series.dto';
+import { CountyBoundaryService } from './services/county-boundary.service';
+import { GetRevisionsDto } from './dto/get-revisions.dto';
+import { DollarMode } from './dto/dollars-query.dto';
+import { GetMarketTrendsDto, TrendRangeQueryDto } from './dto/get-market-trends.dto';
+import { GetDecompositionDto } from './dto/get-decomposition.dto';
+import { GetAffordabilityDto } from './dto/get-affordability.dto';
+import { GetRentVsBuyDto } from './dto/get-rent-vs-buy.dto';
 
 @ApiTags('housing')
 @Controller('housing')
@@ -27,7 +32,9 @@ import { DataSyncService } from './services/data-sync.service';
 export class HousingController {
   constructor(
     private readonly housingService: HousingService,
-    private readonly dataSyncService: DataSyncService,
+    private readonly incomeLimitsService: IncomeLimitsService,
+    private readonly economicDataService: EconomicDataService,
+    private readonly countyBoundaryService: CountyBoundaryService,
   ) {}
 
   @Get('counties')
@@ -46,9 +53,32 @@ export class HousingController {
   @Get('counties/:countyId')
   @ApiOperation({ summary: 'Get county details with latest data' })
   @ApiResponse({ status: 200, description: 'County details', type: CountyDataDto })
+  @ApiQuery({
+    name: 'includeSources',
+    required: false,
+    type: Boolean,
+    description: 'Include the per-source rows behind the reconciled values',
+  })
   @UseGuards(OptionalAuthGuard)
-  async getCountyData(@Param('countyId') countyId: string) {
-    return this.housingService.getCountyData(countyId);
+  async getCountyData(
+    @Param('countyId') countyId: string,
+    @Query('includeSources') includeSources?: string,
+  ) {
+    return this.housingService.getCountyData(countyId, includeSources === 'true');
+  }
+
+  @Get('counties/:countyId/boundary')
+  @ApiOperation({ summary: 'Get the simplified county boundary as a GeoJSON feature' })
+  @ApiResponse({ status: 200, description: 'County boundary' })
+  @ApiQuery({ name: 'zoom', required: false, type: Number, description: 'Map zoom used to pick the simplification level' })
+  @ApiQuery({ name: 'level', required: false, description: 'Explicit simplification level (e.g. low, medium, high)' })
+  @UseGuards(OptionalAuthGuard)
+  async getCountyBoundary(
+    @Param('countyId') countyId: string,
+    @Query('zoom') zoom?: number,
+    @Query('level') level?: string,
+  ) {
+    return this.countyBoundaryService.getBoundary(countyId, zoom, level);
   }
 
   @Get('data')
@@ -70,52 +100,178 @@ export class HousingController {
   @Get('trends/:countyId')
   @ApiOperation({ summary: 'Get market trends for a county' })
   @ApiResponse({ status: 200, description: 'Market trends', type: MarketTrendsDto })
-  @ApiQuery({ name: 'period', required: false, enum: ['1m', '3m', '6m', '1y', '5y'], default: '1y' })
   @UseGuards(OptionalAuthGuard)
   async getMarketTrends(
     @Param('countyId') countyId: string,
-    @Query('period') period: string = '1y',
+    @Query() query: GetMarketTrendsDto,
+  ) {
+    return this.housingService.getMarketTrends(countyId, query);
+  }
+
+  @Get('decomposition/:countyId')
+  @ApiOperation({ summary: 'Split a county metric series into trend, seasonal and residual components' })
+  @ApiResponse({ status: 200, description: 'STL components by month and the strength of seasonality' })
+  @UseGuards(OptionalAuthGuard)
+  async getDecomposition(
+    @Param('countyId') countyId: string,
+    @Query() query: GetDecompositionDto,
   ) {
-    return this.housingService.getMarketTrends(countyId, period);
+    return this.housingService.getDecomposition(countyId, query);
+  }
+
+  @Get('forecast/:countyId')
+  @ApiOperation({ summary: 'Get 12-month home price and rent forecasts for a county' })
+  @ApiResponse({ status: 200, description: 'Forecast paths with 80% and 95% prediction intervals and backtest errors' })
+  @UseGuards(OptionalAuthGuard)
+  async getForecast(@Param('countyId') countyId: string) {
+    return this.housingService.getForecast(countyId);
+  }
+
+  @Get('zip/:zip')
+  @ApiOperation({ summary: 'Resolve a ZIP code to its counties and their latest data' })
+  @ApiResponse({ status: 200, description: 'Counties with allocation ratios and latest data' })
+  @UseGuards(OptionalAuthGuard)
+  async getZipData(@Param('zip') zip: string) {
+    return this.housingService.getZipData(zip);
+  }
+
+  @Get('metros')
+  @ApiOperation({ summary: 'Get list of metro and micro areas (CBSAs)' })
+  @ApiResponse({ status: 200, description: 'List of metros' })
+  @ApiQuery({ name: 'state', required: false, description: 'Metros with a county in this state' })
+  @ApiQuery({ name: 'search', required: false, description: 'Search metros by name' })
+  async getMetros(
+    @Query('state') state?: string,
+    @Query('search') search?: string,
+  ) {
+    return this.housingService.getMetros({ state, search });
+  }
+
+  @Get('metros/compare')
+  @ApiOperation({ summary: 'Compare multiple metros' })
+  @ApiResponse({ status: 200, description: 'Comparison data' })
+  @ApiQuery({ name: 'cbsaCodes', required: true, isArray: true })
+  @UseGuards(OptionalAuthGuard)
+  async compareMetros(@Query('cbsaCodes') cbsaCodes: string[]) {
+    return this.housingService.compareMetros(Array.isArray(cbsaCodes) ? cbsaCodes : [cbsaCodes]);
+  }
+
+  @Get('metros/:cbsaCode')
+  @ApiOperation({ summary: 'Get metro details with its counties and latest aggregate data' })
+  @ApiResponse({ status: 200, description: 'Metro details' })
+  @UseGuards(OptionalAuthGuard)
+  async getMetroData(@Param('cbsaCode') cbsaCode: string) {
+    return this.housingService.getMetroData(cbsaCode);
+  }
+
+  @Get('metros/:cbsaCode/trends')
+  @ApiOperation({ summary: 'Get population-weighted market trends for a metro' })
+  @ApiResponse({ status: 200, description: 'Metro market trends' })
+  @UseGuards(OptionalAuthGuard)
+  async getMetroTrends(
+    @Param('cbsaCode') cbsaCode: string,
+    @Query() query: TrendRangeQueryDto,
+  ) {
+    return this.housingService.getMetroTrends(cbsaCode, query);
+  }
+
+  @Get('states/:stateCode/trends')
+  @ApiOperation({ summary: 'Get population-weighted market trends for a state' })
+  @ApiResponse({ status: 200, description: 'State market trends' })
+  @UseGuards(OptionalAuthGuard)
+  async getStateTrends(
+    @Param('stateCode') stateCode: string,
+    @Query() query: TrendRangeQueryDto,
+  ) {
+    return this.housingService.getStateTrends(stateCode, query);
+  }
+
+  @Get('national/trends')
+  @ApiOperation({ summary: 'Get population-weighted market trends for the US' })
+  @ApiResponse({ status: 200, description: 'National market trends' })
+  @UseGuards(OptionalAuthGuard)
+  async getNationalTrends(@Query() query: TrendRangeQueryDto) {
+    return this.housingService.getNationalTrends(query);
+  }
+
+  @Get('revisions/:countyId')
+  @ApiOperation({ summary: 'List value revisions between data vintages for a county' })
+  @ApiResponse({ status: 200, description: 'Revisions, newest first' })
+  @UseGuards(OptionalAuthGuard)
+  async getRevisions(
+    @Param('countyId') countyId: string,
+    @Query() query: GetRevisionsDto,
+  ) {
+    return this.housingService.getRevisions(countyId, query);
   }
 
   @Get('affordability/:countyId')
   @ApiOperation({ summary: 'Calculate affordability metrics for a county' })
-  @ApiResponse({ status: 200, description: 'Affordability metrics' })
-  @ApiQuery({ name: 'income', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Affordability metrics with the monthly payment on the median home' })
   @UseGuards(OptionalAuthGuard)
   async getAffordabilityMetrics(
     @Param('countyId') countyId: string,
-    @Query('income') income?: number,
+    @Query() query: GetAffordabilityDto,
   ) {
-    return this.housingService.calculateAffordability(countyId, income);
+    return this.housingService.calculateAffordability(countyId, query);
   }
 
-  @Get('compare')
-  @ApiOperation({ summary: 'Compare multiple counties' })
-  @ApiResponse({ status: 200, description: 'Comparison data' })
-  @ApiQuery({ name: 'countyIds', required: true, isArray: true })
+  @Get('rent-vs-buy/:countyId')
+  @ApiOperation({ summary: 'Compare the net cost of renting and buying in a county over several years' })
+  @ApiResponse({ status: 200, description: 'Year-by-year net cost of each path and the break-even year' })
+  @UseGuards(OptionalAuthGuard)
+  async getRentVsBuy(
+    @Param('countyId') countyId: string,
+    @Query() query: GetRentVsBuyDto,
+  ) {
+    return this.housingService.getRentVsBuy(countyId, query);
+  }
+
+  @Get('income-limits/:countyId')
+  @ApiOperation({ summary: 'Get HUD income limits (30/50/80% AMI) for a county' })
+  @ApiResponse({ status: 200, description: 'Income limits by household size' })
+  @ApiQuery({ name: 'year', required: false, type: Number })
   @UseGuards(OptionalAuthGuard)
-  async compareCounties(@Query('countyIds') countyIds: string[]) {
-    return this.housingService.compareCounties(countyIds);
+  async getIncomeLimits(
+    @Param('countyId') countyId: string,
+    @Query('year') year?: number,
+  ) {
+    return this.incomeLimitsService.getIncomeLimits(countyId, year);
   }
 
-  @Post('sync')
-  @ApiOperation({ summary: 'Trigger data synchronization (Admin only)' })
-  @ApiResponse({ status: 202, description: 'Sync job queued' })
-  @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
-  @HttpCode(HttpStatus.ACCEPTED)
-  async triggerDataSync(@Body() body: { source?: string }) {
-    return this.dataSyncService.triggerSync(body.source);
+  @Get('income-limits/:countyId/eligibility')
+  @ApiOperation({ summary: 'Determine the AMI category for a household' })
+  @ApiResponse({ status: 200, description: 'AMI eligibility category' })
+  @UseGuards(OptionalAuthGuard)
+  async checkIncomeEligibility(
+    @Param('countyId') countyId: string,
+    @Query() query: IncomeEligibilityDto,
+  ) {
+    return this.incomeLimitsService.checkEligibility(countyId, query);
   }
 
-  @Get('sync/status')
-  @ApiOperation({ summary: 'Get data sync status (Admin only)' })
-  @ApiResponse({ status: 200, description: 'Sync status' })
-  @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
-  async getSyncStatus() {
-    return this.dataSyncService.getSyncStatus();
+  @Get('economic/:seriesId')
+  @ApiOperation({ summary: 'Get an economic time series (mortgage rates, CPI, HPI)' })
+  @ApiResponse({ status: 200, description: 'Series observations' })
+  async getEconomicSeries(
+    @Param('seriesId') seriesId: string,
+    @Query() query: GetEconomicSeriesDto,
+  ) {
+    return this.economicDataService.getSeries(seriesId, query);
+  }
+
+  @Get('compare')
+  @ApiOperation({ summary: 'Compare multiple counties' })
+  @ApiResponse({ status: 200, description: 'Comparison data' })
+  @ApiQuery({ name: 'countyIds', required: true, isArray: true })
+  @ApiQuery({ name: 'dollars', required: false, enum: DollarMode, description: 'nominal (default) or CPI-adjusted real dollars' })
+  @ApiQuery({ name: 'base', required: false, description: 'Base month for real dollars (YYYY-MM)' })
+  @UseGuards(OptionalAuthGuard)
+  async compareCounties(
+    @Query('countyIds') countyIds: string[],
+    @Query('dollars') dollars?: DollarMode,
+    @Query('base') base?: string,
+  ) {
+    return this.housingService.compareCounties(countyIds, { dollars, base });
   }
 }
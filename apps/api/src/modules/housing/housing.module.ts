@@ -2,12 +2,50 @@ import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { BullModule } from '@nestjs/bull';
 import { HousingController } from './housing.controller';
+import { HousingAdminController } from './housing-admin.controller';
 import { HousingService } from './housing.service';
 import { HudApiService } from './services/hud-api.service';
 import { CensusApiService } from './services/census-api.service';
 import { FredApiService } from './services/fred-api.service';
 import { DataSyncService } from './services/data-sync.service';
+import { DataIngestionService } from './services/data-ingestion.service';
+import { IncomeLimitsService } from './services/income-limits.service';
+import { EconomicDataService } from './services/economic-data.service';
+import { ManualUploadService } from './services/manual-upload.service';
+import { CountyBoundaryService } from './services/county-boundary.service';
+import { ReconciliationService } from './services/reconciliation.service';
+import { DataQualityService } from './services/data-quality.service';
+import { SyncScheduleService } from './services/sync-schedule.service';
+import { IngestionBatchService } from './services/ingestion-batch.service';
+import { VintageService } from './services/vintage.service';
+import { MarketTrendService } from './services/market-trend.service';
+import { ChangeBackfillService } from './services/change-backfill.service';
+import { AggregateService } from './services/aggregate.service';
+import { InflationService } from './services/inflation.service';
+import { ForecastService } from './services/forecast.service';
+import { SeasonalAdjustmentService } from './services/seasonal-adjustment.service';
 import { DataSyncProcessor } from './processors/data-sync.processor';
+import { SyncScheduleProcessor } from './processors/sync-schedule.processor';
+import { MarketTrendProcessor } from './processors/market-trend.processor';
+import { ChangeBackfillProcessor } from './processors/change-backfill.processor';
+import { AggregateProcessor } from './processors/aggregate.processor';
+import { ForecastProcessor } from './processors/forecast.processor';
+import { DataSourceRegistry } from './adapters/data-source.registry';
+import { HudDataSourceAdapter } from './adapters/hud.adapter';
+import { CensusDataSourceAdapter } from './adapters/census.adapter';
+import { FredDataSourceAdapter } from './adapters/fred.adapter';
+import {
+  DATA_SOURCE_ADAPTERS,
+  DataSourceAdapter,
+} from './interfaces/data-source-adapter.interface';
+
+// Adapters listed here are registered with the DataSourceRegistry and can be
+// synced by name; add new feeds to this list.
+const dataSourceAdapters = [
+  HudDataSourceAdapter,
+  CensusDataSourceAdapter,
+  FredDataSourceAdapter,
+];
 
 @Module({
   imports: [
@@ -16,15 +54,43 @@ import { DataSyncProcessor } from './processors/data-sync.processor';
       name: 'data-sync',
     }),
   ],
-  controllers: [HousingController],
+  controllers: [HousingController, HousingAdminController],
   providers: [
     HousingService,
     HudApiService,
     CensusApiService,
     FredApiService,
     DataSyncService,
+    DataIngestionService,
+    IncomeLimitsService,
+    EconomicDataService,
+    ManualUploadService,
+    CountyBoundaryService,
+    ReconciliationService,
+    DataQualityService,
+    SyncScheduleService,
+    IngestionBatchService,
+    VintageService,
+    MarketTrendService,
+    ChangeBackfillService,
+    AggregateService,
+    InflationService,
+    ForecastService,
+    SeasonalAdjustmentService,
     DataSyncProcessor,
+    SyncScheduleProcessor,
+    MarketTrendProcessor,
+    ChangeBackfillProcessor,
+    AggregateProcessor,
+    ForecastProcessor,
+    ...dataSourceAdapters,
+    {
+      provide: DATA_SOURCE_ADAPTERS,
+      useFactory: (...adapters: DataSourceAdapter[]) => adapters,
+      inject: dataSourceAdapters,
+    },
+    DataSourceRegistry,
   ],
-  exports: [HousingService],
+  exports: [HousingService, DataSourceRegistry],
 })
 export class HousingModule {}
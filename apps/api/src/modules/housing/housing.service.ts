@@ -1,8 +1,81 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Prisma } from '@prisma/client';
+import { AggregateLevel, DataSource, DataVintage, ForecastMetric, IngestionTable, Prisma } from '@prisma/client';
 import { PrismaService } from '../database/prisma.service';
 import { GetHousingDataDto } from './dto/get-housing-data.dto';
+import { GetRevisionsDto, RevisionDataType } from './dto/get-revisions.dto';
+import { EconomicDataService } from './services/economic-data.service';
+import { FRED_SERIES } from './services/fred-api.service';
+import { ReconciliationService } from './services/reconciliation.service';
+import { VintageService } from './services/vintage.service';
+import { NATIONAL_REGION } from './services/aggregate.service';
+import { Deflator, InflationService } from './services/inflation.service';
+import { FORECAST_HORIZONS } from './services/forecast.service';
+import { SeasonalAdjustmentService, SeriesRow } from './services/seasonal-adjustment.service';
+import { GetDecompositionDto } from './dto/get-decomposition.dto';
+import { GetAffordabilityDto } from './dto/get-affordability.dto';
+import { MortgageAssumptions, PitiBreakdown, maxPriceForPayment, pitiPayment } from './utils/mortgage.utils';
+import {
+  DEFAULT_SALT_CAP,
+  DEFAULT_STANDARD_DEDUCTION,
+  RentVsBuyInputs,
+  TAX_YEAR,
+  breakEvenYear,
+  simulateRentVsBuy,
+} from './utils/rent-vs-buy.utils';
+import { GetRentVsBuyDto } from './dto/get-rent-vs-buy.dto';
+import { DollarsQueryDto } from './dto/dollars-query.dto';
+import { GetMarketTrendsDto, TrendGranularity, TrendRangeQueryDto } from './dto/get-market-trends.dto';
+import {
+  HOUSING_SERIES_FIELDS,
+  PeriodPoint,
+  RENT_SERIES_FIELDS,
+  ResampleFields,
+  TREND_SERIES_FIELDS,
+  formatPeriod,
+  periodIndex,
+  periodOf,
+  resample,
+  roundTo,
+  seriesStatistics,
+} from './utils/series.utils';
+
+const REVISION_TABLES: Record<RevisionDataType, IngestionTable> = {
+  [RevisionDataType.HOUSING]: IngestionTable.HOUSING_DATA,
+  [RevisionDataType.RENT]: IngestionTable.RENT_DATA,
+  [RevisionDataType.TRENDS]: IngestionTable.MARKET_TREND,
+};
+
+const PERIOD_MONTHS: Record<string, number> = {
+  '1m': 1,
+  '3m': 3,
+  '6m': 6,
+  '1y': 12,
+  '5y': 60,
+};
+
+const GRANULARITY_MONTHS: Record<TrendGranularity, number> = {
+  [TrendGranularity.MONTHLY]: 1,
+  [TrendGranularity.QUARTERLY]: 3,
+  [TrendGranularity.ANNUAL]: 12,
+};
+
+// Rent vs buy growth history, and the rate used without one
+const GROWTH_HISTORY_MONTHS = 120;
+const DEFAULT_GROWTH_RATE = 3;
+
+// Inclusive range of period indexes (see periodIndex)
+interface TrendRange {
+  period: string;
+  from: number;
+  to: number;
+}
+
+interface PeriodRow {
+  countyId: string;
+  year: number;
+  month: number;
+}
 
 @Injectable()
 export class HousingService {
@@ -11,6 +84,11 @@ export class HousingService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private economicDataService: EconomicDataService,
+    private reconciliationService: ReconciliationService,
+    private vintageService: VintageService,
+    private inflationService: InflationService,
+    private seasonalAdjustmentService: SeasonalAdjustmentService,
   ) {}
 
   async getCounties(filters: { state?: string; search?: string }) {
@@ -36,28 +114,45 @@ export class HousingService {
         stateCode: true,
         fipsCode: true,
         population: true,
+        populationMoe: true,
         medianIncome: true,
+        medianIncomeMoe: true,
+        acsYear: true,
+        latitude: true,
+        longitude: true,
       },
       orderBy: [{ state: 'asc' }, { name: 'asc' }],
     });
   }
 
-  async getCountyData(countyId: string) {
+  async getCountyData(countyId: string, includeSources = false) {
+    // Boundary geometry is served by the boundary endpoint, not with the county
     const county = await this.prisma.county.findUnique({
       where: { id: countyId },
-      include: {
-        housingData: {
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        },
-        rentData: {
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        },
+      select: {
+        id: true,
+        fipsCode: true,
+        name: true,
+        state: true,
+        stateCode: true,
+        population: true,
+        populationMoe: true,
+        medianIncome: true,
+        medianIncomeMoe: true,
+        acsEstimates: true,
+        acsYear: true,
+        latitude: true,
+        longitude: true,
+        metroId: true,
+        createdAt: true,
+        updatedAt: true,
         marketTrends: {
-          orderBy: { createdAt: 'desc' },
+          orderBy: [{ year: 'desc' }, { month: 'desc' }],
           take: 1,
         },
+        metro: {
+          select: { cbsaCode: true, name: true, type: true },
+        },
       },
     });
 
@@ -65,16 +160,45 @@ export class HousingService {
       throw new NotFoundException('County not found');
     }
 
+    const [housingRows, rentRows] = await Promise.all([
+      this.latestHousingRows(countyId),
+      this.latestRentRows(countyId),
+    ]);
+
     return {
       ...county,
-      currentHousingData: county.housingData[0] || null,
-      currentRentData: county.rentData[0] || null,
+      currentHousingData: this.reconciliationService.preferCanonical(housingRows),
+      currentRentData: this.reconciliationService.preferCanonical(rentRows),
       currentTrends: county.marketTrends[0] || null,
+      ...(includeSources && {
+        sources: {
+          housing: housingRows.filter((row) => row.source !== DataSource.CALCULATED),
+          rent: rentRows.filter((row) => row.source !== DataSource.CALCULATED),
+        },
+      }),
     };
   }
 
   async getHousingData(query: GetHousingDataDto) {
-    const where: Prisma.HousingDataWhereInput = {};
+    const deflator = await this.inflationService.deflator(query.dollars, query.base);
+    const result = await this.findHousingData(query);
+    return this.inDollars(await this.seasonallyAdjusted(IngestionTable.HOUSING_DATA, result, query), deflator);
+  }
+
+  async getRentData(query: GetHousingDataDto) {
+    const deflator = await this.inflationService.deflator(query.dollars, query.base);
+    const result = await this.findRentData(query);
+    return this.inDollars(await this.seasonallyAdjusted(IngestionTable.RENT_DATA, result, query), deflator);
+  }
+
+  private async findHousingData(query: GetHousingDataDto) {
+    if (query.asOf) {
+      return this.getDataAsOf(IngestionTable.HOUSING_DATA, 'medianHomePrice', query);
+    }
+
+    const where: Prisma.HousingDataWhereInput = {
+      source: query.source ?? DataSource.CALCULATED,
+    };
 
     if (query.countyId) {
       where.countyId = query.countyId;
@@ -116,7 +240,11 @@ export class HousingService {
     ]);
 
     return {
-      data,
+      data: query.includeSources
+        ? this.withSources(data, await this.prisma.housingData.findMany({
+          where: this.sourceRowsWhere(data),
+        }))
+        : data,
       pagination: {
         total,
         page: query.page,
@@ -126,8 +254,14 @@ export class HousingService {
     };
   }
 
-  async getRentData(query: GetHousingDataDto) {
-    const where: Prisma.RentDataWhereInput = {};
+  private async findRentData(query: GetHousingDataDto) {
+    if (query.asOf) {
+      return this.getDataAsOf(IngestionTable.RENT_DATA, 'medianRent', query);
+    }
+
+    const where: Prisma.RentDataWhereInput = {
+      source: query.source ?? DataSource.CALCULATED,
+    };
 
     if (query.countyId) {
       where.countyId = query.countyId;
@@ -169,7 +303,11 @@ export class HousingService {
     ]);
 
     return {
-      data,
+      data: query.includeSources
+        ? this.withSources(data, await this.prisma.rentData.findMany({
+          where: this.sourceRowsWhere(data),
+        }))
+        : data,
       pagination: {
         total,
         page: query.page,
@@ -179,7 +317,7 @@ export class HousingService {
     };
   }
 
-  async getMarketTrends(countyId: string, period: string) {
+  async getMarketTrends(countyId: string, query: GetMarketTrendsDto = new GetMarketTrendsDto()) {
     const county = await this.prisma.county.findUnique({
       where: { id: countyId },
     });
@@ -188,105 +326,376 @@ export class HousingService {
       throw new NotFoundException('County not found');
     }
 
-    // Calculate date range based on period
-    const endDate = new Date();
-    const startDate = new Date();
-    
-    switch (period) {
-      case '1m':
-        startDate.setMonth(startDate.getMonth() - 1);
-        break;
-      case '3m':
-        startDate.setMonth(startDate.getMonth() - 3);
-        break;
-      case '6m':
-        startDate.setMonth(startDate.getMonth() - 6);
-        break;
-      case '1y':
-        startDate.setFullYear(startDate.getFullYear() - 1);
-        break;
-      case '5y':
-        startDate.setFullYear(startDate.getFullYear() - 5);
-        break;
-      default:
-        startDate.setFullYear(startDate.getFullYear() - 1);
-    }
-
-    const [housingData, rentData, trends] = await Promise.all([
-      this.prisma.housingData.findMany({
-        where: {
-          countyId,
-          createdAt: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-        orderBy: [{ year: 'asc' }, { month: 'asc' }],
+    const deflator = await this.inflationService.deflator(query.dollars, query.base);
+    const range = this.trendRange(query, query.asOf ?? new Date());
+    let housingData: SeriesRow[];
+    let rentData: SeriesRow[];
+    let trends: SeriesRow[];
+
+    if (query.asOf) {
+      [housingData, rentData, trends] = await Promise.all(
+        [IngestionTable.HOUSING_DATA, IngestionTable.RENT_DATA, IngestionTable.MARKET_TREND].map(
+          (table) => this.getSeriesAsOf(table, countyId, query.asOf, range),
+        ),
+      );
+    } else {
+      const where = { countyId, ...this.periodRangeWhere(range) };
+      const orderBy: Prisma.HousingDataOrderByWithRelationInput[] = [{ year: 'asc' }, { month: 'asc' }];
+
+      [housingData, rentData, trends] = await Promise.all([
+        this.prisma.housingData.findMany({ where: { ...where, source: DataSource.CALCULATED }, orderBy }),
+        this.prisma.rentData.findMany({ where: { ...where, source: DataSource.CALCULATED }, orderBy }),
+        this.prisma.marketTrend.findMany({ where, orderBy }),
+      ]);
+    }
+
+    if (query.seasonallyAdjusted) {
+      [housingData, rentData] = await Promise.all([
+        this.adjustSeasonally(IngestionTable.HOUSING_DATA, housingData, query.asOf),
+        this.adjustSeasonally(IngestionTable.RENT_DATA, rentData, query.asOf),
+      ]);
+    }
+
+    return {
+      county,
+      ...(query.asOf && { asOf: query.asOf }),
+      ...this.trendSeries(range, query.granularity, { housingData, rentData, trends }, deflator),
+      ...(query.seasonallyAdjusted && { seasonallyAdjusted: true }),
+    };
+  }
+
+  /**
+   * Splits a county's reconciled monthly series of one housing or rent field
+   * into trend, seasonal and residual components (STL). The whole series is
+   * decomposed; the response covers the requested months.
+   */
+  async getDecomposition(countyId: string, query: GetDecompositionDto) {
+    const county = await this.prisma.county.findUnique({
+      where: { id: countyId },
+      select: { id: true, name: true, state: true, stateCode: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('County not found');
+    }
+
+    const table = RENT_SERIES_FIELDS.mean.includes(query.metric)
+      ? IngestionTable.RENT_DATA
+      : IngestionTable.HOUSING_DATA;
+    const range = this.trendRange(query, query.asOf ?? new Date());
+    const allTime = { period: 'all', from: 0, to: range.to };
+
+    const rows = query.asOf
+      ? await this.getSeriesAsOf(table, countyId, query.asOf, allTime)
+      : table === IngestionTable.RENT_DATA
+        ? await this.prisma.rentData.findMany({
+          where: { countyId, source: DataSource.CALCULATED },
+          orderBy: [{ year: 'asc' }, { month: 'asc' }],
+        })
+        : await this.prisma.housingData.findMany({
+          where: { countyId, source: DataSource.CALCULATED },
+          orderBy: [{ year: 'asc' }, { month: 'asc' }],
+        });
+
+    const decomposition = this.seasonalAdjustmentService.decompose(
+      rows
+        .filter((row) => periodIndex(row.year, row.month) <= range.to)
+        .map((row) => ({ year: row.year, month: row.month, value: row[query.metric] })),
+    );
+
+    if (!decomposition) {
+      throw new BadRequestException(`At least two years of ${query.metric} are needed to decompose the series`);
+    }
+
+    return {
+      county,
+      metric: query.metric,
+      period: range.period,
+      from: formatPeriod(range.from),
+      to: formatPeriod(range.to),
+      ...(query.asOf && { asOf: query.asOf }),
+      seasonalStrength: decomposition.seasonalStrength,
+      interpolatedMonths: decomposition.interpolated,
+      points: decomposition.points.filter((point) => {
+        const index = periodIndex(point.year, point.month);
+        return index >= range.from && index <= range.to;
       }),
-      this.prisma.rentData.findMany({
-        where: {
-          countyId,
-          createdAt: {
-            gte: startDate,
-            lte: endDate,
+    };
+  }
+
+  /**
+   * Latest Holt-Winters forecast paths of the county's median home price and
+   * median rent, with their fitted parameters and backtest errors. A series
+   * without enough consecutive months has no forecast and is null.
+   */
+  async getForecast(countyId: string) {
+    const county = await this.prisma.county.findUnique({
+      where: { id: countyId },
+      select: { id: true, name: true, state: true, stateCode: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('County not found');
+    }
+
+    const [fits, forecasts] = await Promise.all([
+      this.prisma.forecastFit.findMany({ where: { countyId } }),
+      this.prisma.forecast.findMany({ where: { countyId }, orderBy: { horizon: 'asc' } }),
+    ]);
+
+    const series = (metric: ForecastMetric) => {
+      const fit = fits.find((candidate) => candidate.metric === metric);
+      if (!fit) return null;
+
+      return {
+        method: fit.method,
+        parameters: { alpha: fit.alpha, beta: fit.beta, gamma: fit.gamma, phi: fit.phi },
+        observations: fit.observations,
+        origin: { year: fit.originYear, month: fit.originMonth },
+        fittedAt: fit.updatedAt,
+        confidenceScore: fit.confidenceScore,
+        backtest: fit.backtest,
+        path: forecasts
+          .filter((forecast) => forecast.metric === metric)
+          .map(({ horizon, year, month, value, lower80, upper80, lower95, upper95 }) => ({
+            horizon, year, month, value, lower80, upper80, lower95, upper95,
+          })),
+      };
+    };
+
+    return {
+      county,
+      horizons: FORECAST_HORIZONS,
+      homePrice: series(ForecastMetric.HOME_PRICE),
+      rent: series(ForecastMetric.RENT),
+    };
+  }
+
+  /**
+   * Resolves a ZIP to the counties it overlaps, weighted by the share of its
+   * residential addresses in each, and blends their latest prices.
+   */
+  async getZipData(zip: string) {
+    if (!/^\d{5}$/.test(zip)) {
+      throw new BadRequestException('ZIP code must be 5 digits');
+    }
+
+    const zcta = await this.prisma.zcta.findUnique({
+      where: { zip },
+      include: {
+        counties: {
+          include: {
+            county: {
+              select: { id: true, name: true, state: true, stateCode: true, fipsCode: true },
+            },
           },
+          orderBy: { residentialRatio: 'desc' },
         },
-        orderBy: [{ year: 'asc' }, { month: 'asc' }],
-      }),
-      this.prisma.marketTrend.findMany({
-        where: {
-          countyId,
-          createdAt: {
-            gte: startDate,
-            lte: endDate,
+      },
+    });
+
+    if (!zcta) {
+      throw new NotFoundException('ZIP code not found');
+    }
+
+    const counties = await Promise.all(
+      zcta.counties.map(async (link) => {
+        const [housingRows, rentRows] = await Promise.all([
+          this.latestHousingRows(link.countyId),
+          this.latestRentRows(link.countyId),
+        ]);
+
+        return {
+          county: link.county,
+          allocation: {
+            residential: link.residentialRatio,
+            business: link.businessRatio,
+            other: link.otherRatio,
+            total: link.totalRatio,
           },
-        },
-        orderBy: [{ year: 'asc' }, { month: 'asc' }],
+          currentHousingData: this.reconciliationService.preferCanonical(housingRows),
+          currentRentData: this.reconciliationService.preferCanonical(rentRows),
+        };
       }),
+    );
+
+    return {
+      zip: zcta.zip,
+      city: zcta.city,
+      stateCode: zcta.stateCode,
+      quarter: zcta.quarter,
+      primaryCountyId: counties[0]?.county.id ?? null,
+      counties,
+      estimate: {
+        medianHomePrice: this.allocate(counties, (entry) => entry.currentHousingData?.medianHomePrice),
+        medianRent: this.allocate(counties, (entry) => entry.currentRentData?.medianRent),
+      },
+    };
+  }
+
+  async getMetros(filters: { state?: string; search?: string }) {
+    const where: Prisma.MetroWhereInput = {};
+
+    if (filters.state) {
+      where.counties = { some: { stateCode: filters.state.toUpperCase() } };
+    }
+
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    return this.prisma.metro.findMany({
+      where,
+      select: {
+        id: true,
+        cbsaCode: true,
+        name: true,
+        type: true,
+        csaCode: true,
+        csaName: true,
+        _count: { select: { counties: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getMetroData(cbsaCode: string) {
+    const metro = await this.findMetro(cbsaCode);
+    const where = { level: AggregateLevel.METRO, regionCode: metro.cbsaCode };
+    const orderBy: Prisma.HousingAggregateOrderByWithRelationInput[] = [{ year: 'desc' }, { month: 'desc' }];
+
+    const [currentHousingData, currentRentData] = await Promise.all([
+      this.prisma.housingAggregate.findFirst({ where, orderBy }),
+      this.prisma.rentAggregate.findFirst({ where, orderBy }),
     ]);
 
+    // Population-weighted mean of the county ACS medians; there is no
+    // published metro median in the county data
+    const withIncome = metro.counties.filter((county) => county.population && county.medianIncome);
+    const incomePopulation = withIncome.reduce((sum, county) => sum + county.population, 0);
+
     return {
-      county,
-      period,
-      housingData,
-      rentData,
-      trends,
-      summary: this.calculateTrendSummary(housingData, rentData),
+      ...metro,
+      population: metro.counties.reduce((sum, county) => sum + (county.population ?? 0), 0),
+      medianIncome: incomePopulation > 0
+        ? withIncome.reduce((sum, county) => sum + county.medianIncome * county.population, 0) / incomePopulation
+        : null,
+      currentHousingData,
+      currentRentData,
+    };
+  }
+
+  async getMetroTrends(cbsaCode: string, query: TrendRangeQueryDto = new TrendRangeQueryDto()) {
+    const metro = await this.findMetro(cbsaCode);
+
+    return this.getAggregateTrends(
+      { level: AggregateLevel.METRO, code: metro.cbsaCode, name: metro.name },
+      query,
+    );
+  }
+
+  async compareMetros(cbsaCodes: string[]) {
+    if (cbsaCodes.length > 5) {
+      cbsaCodes = cbsaCodes.slice(0, 5); // Limit to 5 metros
+    }
+
+    const metros = await Promise.all(
+      cbsaCodes.map(code => this.getMetroData(code).catch(() => null)),
+    );
+
+    const validMetros = metros.filter(m => m !== null);
+
+    if (validMetros.length === 0) {
+      throw new NotFoundException('No valid metros found');
+    }
+
+    return {
+      metros: validMetros,
+      comparison: {
+        lowestRent: this.findLowest(validMetros, 'currentRentData', 'medianRent'),
+        highestRent: this.findHighest(validMetros, 'currentRentData', 'medianRent'),
+        lowestHomePrice: this.findLowest(validMetros, 'currentHousingData', 'medianHomePrice'),
+        highestHomePrice: this.findHighest(validMetros, 'currentHousingData', 'medianHomePrice'),
+        bestAffordability: this.findBestAffordability(validMetros),
+      },
     };
   }
 
-  async calculateAffordability(countyId: string, income?: number) {
+  async getStateTrends(stateCode: string, query: TrendRangeQueryDto = new TrendRangeQueryDto()) {
+    const county = await this.prisma.county.findFirst({
+      where: { stateCode: stateCode.toUpperCase() },
+      select: { state: true, stateCode: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('State not found');
+    }
+
+    return this.getAggregateTrends(
+      { level: AggregateLevel.STATE, code: county.stateCode, name: county.state },
+      query,
+    );
+  }
+
+  async getNationalTrends(query: TrendRangeQueryDto = new TrendRangeQueryDto()) {
+    return this.getAggregateTrends(
+      { level: AggregateLevel.NATIONAL, code: NATIONAL_REGION, name: 'United States' },
+      query,
+    );
+  }
+
+  /**
+   * Rent affordability uses the 30%-of-income rule. Home affordability uses a
+   * monthly PITI model (principal and interest, property tax, insurance, PMI
+   * under 20% down, HOA) against front-end and back-end DTI limits.
+   */
+  async calculateAffordability(countyId: string, query: GetAffordabilityDto = new GetAffordabilityDto()) {
     const county = await this.prisma.county.findUnique({
       where: { id: countyId },
-      include: {
-        housingData: {
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        },
-        rentData: {
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        },
-      },
     });
 
     if (!county) {
       throw new NotFoundException('County not found');
     }
 
-    const annualIncome = income || county.medianIncome || 60000;
+    const annualIncome = query.income || county.medianIncome || 60000;
     const monthlyIncome = annualIncome / 12;
 
-    const latestHousing = county.housingData[0];
-    const latestRent = county.rentData[0];
+    const latestHousing = this.reconciliationService.preferCanonical(
+      await this.latestHousingRows(countyId),
+    );
+    const latestRent = this.reconciliationService.preferCanonical(
+      await this.latestRentRows(countyId),
+    );
 
     if (!latestHousing || !latestRent) {
       throw new NotFoundException('No housing data available for this county');
     }
 
+    const { rate, source: rateSource, latest: mortgageRate } = await this.resolveMortgageRate(query.mortgageRate);
+    const assumptions: MortgageAssumptions = {
+      annualRate: rate,
+      termYears: query.loanTermYears,
+      downPayment: query.downPayment,
+      downPaymentPercent: query.downPaymentPercent,
+      propertyTaxRate: query.propertyTaxRate,
+      insuranceRate: query.insuranceRate,
+      pmiRate: query.pmiRate,
+      monthlyHoa: query.hoa,
+    };
+
     // Calculate affordability metrics
     const maxAffordableRent = monthlyIncome * 0.3; // 30% rule
-    const maxAffordableHome = annualIncome * 3.5; // 3.5x income rule
+    const maxHousingPayment = Math.max(0, Math.min(
+      (monthlyIncome * query.frontEndDti) / 100,
+      (monthlyIncome * query.backEndDti) / 100 - query.monthlyDebts,
+    ));
+    const maxAffordableHome = maxPriceForPayment(maxHousingPayment, assumptions);
+    const medianHomePayment = pitiPayment(latestHousing.medianHomePrice, assumptions);
+    const requiredIncome = Math.max(
+      medianHomePayment.total / (query.frontEndDti / 100),
+      (medianHomePayment.total + query.monthlyDebts) / (query.backEndDti / 100),
+    ) * 12;
 
     const rentAffordabilityRatio = latestRent.medianRent / monthlyIncome;
     const homeAffordabilityRatio = latestHousing.medianHomePrice / annualIncome;
@@ -300,36 +709,169 @@ export class HousingService {
       income: {
         annual: annualIncome,
         monthly: monthlyIncome,
+        // Margin of error applies only when the county ACS median is used
+        marginOfError: query.income ? null : county.medianIncomeMoe,
+        monthlyDebts: query.monthlyDebts,
       },
       currentPrices: {
         medianRent: latestRent.medianRent,
         medianHomePrice: latestHousing.medianHomePrice,
+        mortgageRate30Y: mortgageRate?.value ?? null,
+        mortgageRateDate: mortgageRate?.date ?? null,
+      },
+      mortgage: {
+        rate,
+        rateSource,
+        termYears: query.loanTermYears,
+        downPayment: query.downPayment ?? null,
+        downPaymentPercent: query.downPayment === undefined ? query.downPaymentPercent : null,
+        propertyTaxRate: query.propertyTaxRate,
+        insuranceRate: query.insuranceRate,
+        pmiRate: query.pmiRate,
+        hoa: query.hoa,
+        frontEndDti: query.frontEndDti,
+        backEndDti: query.backEndDti,
       },
       affordability: {
         maxAffordableRent,
         maxAffordableHome,
+        maxHousingPayment: roundTo(maxHousingPayment),
         rentAffordable: latestRent.medianRent <= maxAffordableRent,
         homeAffordable: latestHousing.medianHomePrice <= maxAffordableHome,
         rentToIncomeRatio: rentAffordabilityRatio,
         priceToIncomeRatio: homeAffordabilityRatio,
+        medianHomePayment: this.roundPayment(medianHomePayment),
+        frontEndRatio: roundTo((medianHomePayment.total / monthlyIncome) * 100),
+        backEndRatio: roundTo(((medianHomePayment.total + query.monthlyDebts) / monthlyIncome) * 100),
+        requiredIncome: Math.ceil(requiredIncome),
       },
       recommendations: this.getAffordabilityRecommendations(
         rentAffordabilityRatio,
-        homeAffordabilityRatio,
+        medianHomePayment.total,
+        maxHousingPayment,
+        requiredIncome,
       ),
     };
   }
 
-  async compareCounties(countyIds: string[]) {
+  /**
+   * Compares buying the county median home with renting at the county median
+   * rent over `years`, using the county's own price and rent growth unless
+   * given. See simulateRentVsBuy for how net costs are counted.
+   */
+  async getRentVsBuy(countyId: string, query: GetRentVsBuyDto = new GetRentVsBuyDto()) {
+    const county = await this.prisma.county.findUnique({
+      where: { id: countyId },
+      select: { id: true, name: true, state: true, stateCode: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('County not found');
+    }
+
+    const latestHousing = this.reconciliationService.preferCanonical(
+      await this.latestHousingRows(countyId),
+    );
+    const latestRent = this.reconciliationService.preferCanonical(
+      await this.latestRentRows(countyId),
+    );
+
+    const homePrice = query.homePrice ?? latestHousing?.medianHomePrice;
+    const monthlyRent = query.monthlyRent ?? latestRent?.medianRent;
+
+    if (!homePrice || !monthlyRent) {
+      throw new NotFoundException('No housing data available for this county');
+    }
+
+    const [appreciation, rentGrowth, mortgage] = await Promise.all([
+      query.appreciationRate === undefined ? this.historicalGrowth(countyId, 'medianHomePrice') : null,
+      query.rentGrowthRate === undefined ? this.historicalGrowth(countyId, 'medianRent') : null,
+      this.resolveMortgageRate(query.mortgageRate),
+    ]);
+
+    const inputs: RentVsBuyInputs = {
+      years: query.years,
+      homePrice,
+      monthlyRent,
+      appreciationRate: query.appreciationRate ?? appreciation?.rate ?? DEFAULT_GROWTH_RATE,
+      rentGrowthRate: query.rentGrowthRate ?? rentGrowth?.rate ?? DEFAULT_GROWTH_RATE,
+      mortgageRate: mortgage.rate,
+      termYears: query.loanTermYears,
+      downPayment: query.downPayment ?? (homePrice * query.downPaymentPercent) / 100,
+      propertyTaxRate: query.propertyTaxRate,
+      insuranceRate: query.insuranceRate,
+      pmiRate: query.pmiRate,
+      maintenanceRate: query.maintenanceRate,
+      monthlyHoa: query.hoa,
+      buyingCosts: query.buyingCosts,
+      sellingCosts: query.sellingCosts,
+      investmentReturn: query.investmentReturn,
+      investmentTaxRate: query.investmentTaxRate,
+      marginalTaxRate: query.marginalTaxRate,
+      standardDeduction: query.standardDeduction ?? DEFAULT_STANDARD_DEDUCTION,
+      saltCap: query.saltCap ?? DEFAULT_SALT_CAP,
+    };
+
+    const growthHistory = (requested: number | undefined, history: { from: string; to: string } | null) =>
+      requested !== undefined
+        ? { source: 'request' }
+        : history
+          ? { source: 'county', from: history.from, to: history.to }
+          : { source: 'default' };
+    // Tax figures default to one tax year's law, so say which
+    const taxFigure = (requested: number | undefined) =>
+      requested !== undefined ? { source: 'request' } : { source: 'default', taxYear: TAX_YEAR };
+    const round = (values: Record<string, number>) =>
+      Object.fromEntries(Object.entries(values).map(([key, value]) => [key, Math.round(value)]));
+
+    const simulation = simulateRentVsBuy(inputs);
+    const years = simulation.map((year) => ({
+      year: year.year,
+      buy: round(year.buy),
+      rent: round(year.rent),
+      buyAdvantage: Math.round(year.buyAdvantage),
+    }));
+    const last = years[years.length - 1];
+
+    return {
+      county,
+      assumptions: {
+        ...inputs,
+        appreciationHistory: growthHistory(query.appreciationRate, appreciation),
+        rentGrowthHistory: growthHistory(query.rentGrowthRate, rentGrowth),
+        mortgageRateSource: mortgage.source,
+        standardDeductionSource: taxFigure(query.standardDeduction),
+        saltCapSource: taxFigure(query.saltCap),
+      },
+      breakEvenYear: breakEvenYear(simulation),
+      summary: {
+        buyNetCost: last.buy.netCost,
+        rentNetCost: last.rent.netCost,
+        cheaperPath: last.buyAdvantage >= 0 ? 'buy' : 'rent',
+      },
+      years,
+    };
+  }
+
+  async compareCounties(countyIds: string[], dollars: DollarsQueryDto = {}) {
     if (countyIds.length > 5) {
       countyIds = countyIds.slice(0, 5); // Limit to 5 counties
     }
 
+    const deflator = await this.inflationService.deflator(dollars.dollars, dollars.base);
     const counties = await Promise.all(
       countyIds.map(id => this.getCountyData(id).catch(() => null)),
     );
 
-    const validCounties = counties.filter(c => c !== null);
+    const validCounties = counties
+      .filter(c => c !== null)
+      .map(county => deflator
+        ? {
+          ...county,
+          currentHousingData: deflator.deflate(county.currentHousingData),
+          currentRentData: deflator.deflate(county.currentRentData),
+        }
+        : county);
 
     if (validCounties.length === 0) {
       throw new NotFoundException('No valid counties found');
@@ -344,32 +886,409 @@ export class HousingService {
         highestHomePrice: this.findHighest(validCounties, 'currentHousingData', 'medianHomePrice'),
         bestAffordability: this.findBestAffordability(validCounties),
       },
+      ...(deflator && { dollars: deflator.describe() }),
     };
   }
 
-  private calculateTrendSummary(housingData: any[], rentData: any[]) {
-    if (housingData.length < 2 || rentData.length < 2) {
-      return null;
+  async getRevisions(countyId: string, query: GetRevisionsDto) {
+    const county = await this.prisma.county.findUnique({
+      where: { id: countyId },
+      select: { id: true, name: true, state: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('County not found');
     }
 
-    const firstHousing = housingData[0];
-    const lastHousing = housingData[housingData.length - 1];
-    const firstRent = rentData[0];
-    const lastRent = rentData[rentData.length - 1];
+    const revisions = await this.vintageService.getRevisions(countyId, {
+      table: query.type ? REVISION_TABLES[query.type] : undefined,
+      source: query.source,
+      year: query.year,
+      month: query.month,
+      since: query.since,
+      limit: query.limit,
+    });
+
+    return { ...revisions, county };
+  }
+
+  private async getDataAsOf(table: IngestionTable, priceField: string, query: GetHousingDataDto) {
+    const where: Prisma.DataVintageWhereInput = {
+      AND: [
+        this.vintageService.asOfWhere(table, query.asOf),
+        {
+          source: query.source ?? DataSource.CALCULATED,
+          countyId: query.countyId,
+          year: query.year,
+          month: query.month,
+        },
+        ...(query.minPrice ? [{ values: { path: [priceField], gte: query.minPrice } }] : []),
+        ...(query.maxPrice ? [{ values: { path: [priceField], lte: query.maxPrice } }] : []),
+      ],
+    };
+
+    const [vintages, total] = await Promise.all([
+      this.prisma.dataVintage.findMany({
+        where,
+        orderBy: [{ year: 'desc' }, { month: 'desc' }],
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      this.prisma.dataVintage.count({ where }),
+    ]);
+
+    const counties = await this.prisma.county.findMany({
+      where: { id: { in: Array.from(new Set(vintages.map((vintage) => vintage.countyId))) } },
+      select: { id: true, name: true, state: true, stateCode: true },
+    });
+    const countyById = new Map(counties.map((county) => [county.id, county]));
+    const data = vintages.map((vintage) => ({
+      ...this.vintageService.toRow(vintage),
+      county: countyById.get(vintage.countyId) ?? null,
+    }));
+
+    let sourceVintages: DataVintage[] = [];
+    if (query.includeSources && data.length > 0) {
+      sourceVintages = await this.prisma.dataVintage.findMany({
+        where: {
+          AND: [
+            this.vintageService.asOfWhere(table, query.asOf),
+            this.sourceRowsWhere(data),
+          ],
+        },
+      });
+    }
 
     return {
-      homePriceChange: {
-        absolute: lastHousing.medianHomePrice - firstHousing.medianHomePrice,
-        percentage: ((lastHousing.medianHomePrice - firstHousing.medianHomePrice) / firstHousing.medianHomePrice) * 100,
+      asOf: query.asOf,
+      data: query.includeSources
+        ? this.withSources(data, sourceVintages.map((vintage) => this.vintageService.toRow(vintage)))
+        : data,
+      pagination: {
+        total,
+        page: query.page,
+        limit: query.limit,
+        totalPages: Math.ceil(total / query.limit),
       },
-      rentChange: {
-        absolute: lastRent.medianRent - firstRent.medianRent,
-        percentage: ((lastRent.medianRent - firstRent.medianRent) / firstRent.medianRent) * 100,
+    };
+  }
+
+  // Reconciled county series as known at `asOf`, limited to periods in the range
+  private async getSeriesAsOf(
+    table: IngestionTable,
+    countyId: string,
+    asOf: Date,
+    range: TrendRange,
+  ) {
+    const vintages = await this.prisma.dataVintage.findMany({
+      where: {
+        AND: [
+          this.vintageService.asOfWhere(table, asOf),
+          {
+            countyId,
+            ...(table !== IngestionTable.MARKET_TREND && { source: DataSource.CALCULATED }),
+            ...this.periodRangeWhere(range),
+          },
+        ],
       },
+      orderBy: [{ year: 'asc' }, { month: 'asc' }],
+    });
+
+    return vintages.map((vintage) => this.vintageService.toRow(vintage));
+  }
+
+  // All source rows (including CALCULATED) for the most recent county-month
+  private async latestHousingRows(countyId: string) {
+    const latest = await this.prisma.housingData.findFirst({
+      where: { countyId },
+      orderBy: [{ year: 'desc' }, { month: 'desc' }],
+      select: { year: true, month: true },
+    });
+
+    return latest
+      ? this.prisma.housingData.findMany({ where: { countyId, year: latest.year, month: latest.month } })
+      : [];
+  }
+
+  private async latestRentRows(countyId: string) {
+    const latest = await this.prisma.rentData.findFirst({
+      where: { countyId },
+      orderBy: [{ year: 'desc' }, { month: 'desc' }],
+      select: { year: true, month: true },
+    });
+
+    return latest
+      ? this.prisma.rentData.findMany({ where: { countyId, year: latest.year, month: latest.month } })
+      : [];
+  }
+
+  private sourceRowsWhere(rows: PeriodRow[]) {
+    return {
+      source: { not: DataSource.CALCULATED },
+      OR: rows.map(({ countyId, year, month }) => ({ countyId, year, month })),
+    };
+  }
+
+  // Adjusts nominal values; deflation, when requested, is applied afterwards
+  private async seasonallyAdjusted<T extends { data: SeriesRow[] }>(
+    table: IngestionTable,
+    result: T,
+    query: GetHousingDataDto,
+  ) {
+    if (!query.seasonallyAdjusted) {
+      return result;
+    }
+
+    return {
+      ...result,
+      data: await this.adjustSeasonally(table, result.data, query.asOf),
+      seasonallyAdjusted: true,
+    };
+  }
+
+  private async adjustSeasonally<T extends SeriesRow>(table: IngestionTable, rows: T[], asOf?: Date) {
+    const adjuster = await this.seasonalAdjustmentService.adjuster(table, rows, asOf);
+    return rows.map((row) => adjuster.adjust(row));
+  }
+
+  // Requested rate, else the latest FRED 30-year fixed rate, else the configured default
+  private async resolveMortgageRate(requested?: number) {
+    const latest = await this.economicDataService.getLatestValue(FRED_SERIES.MORTGAGE_30Y);
+    const rate: number = requested ?? latest?.value ?? this.configService.get('affordability.defaultMortgageRate');
+    const source = requested !== undefined ? 'request' : latest ? 'fred' : 'default';
+
+    return { rate, source, latest };
+  }
+
+  // Annual growth (CAGR, %) of a reconciled county series over its last ten
+  // years, or null with less than two years of history
+  private async historicalGrowth(countyId: string, field: 'medianHomePrice' | 'medianRent') {
+    const query = {
+      where: { countyId, source: DataSource.CALCULATED, [field]: { gt: 0 } },
+      orderBy: [{ year: 'desc' }, { month: 'desc' }] as Prisma.HousingDataOrderByWithRelationInput[],
+      take: GROWTH_HISTORY_MONTHS + 1,
+    };
+    const rows: { year: number; month: number; value: number }[] = field === 'medianHomePrice'
+      ? (await this.prisma.housingData.findMany({
+        ...query,
+        select: { year: true, month: true, medianHomePrice: true },
+      })).map(({ year, month, medianHomePrice }) => ({ year, month, value: medianHomePrice }))
+      : (await this.prisma.rentData.findMany({
+        ...query,
+        select: { year: true, month: true, medianRent: true },
+      })).map(({ year, month, medianRent }) => ({ year, month, value: medianRent }));
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const points = rows
+      .map((row) => ({ index: periodIndex(row.year, row.month), value: row.value }))
+      .filter((point) => point.index >= periodIndex(rows[0].year, rows[0].month) - GROWTH_HISTORY_MONTHS)
+      .reverse();
+    if (points.length < 2 || points[points.length - 1].index - points[0].index < 24) {
+      return null;
+    }
+
+    return {
+      rate: seriesStatistics(points, 12).cagr,
+      from: formatPeriod(points[0].index),
+      to: formatPeriod(points[points.length - 1].index),
+    };
+  }
+
+  private roundPayment(payment: PitiBreakdown): PitiBreakdown {
+    return {
+      price: roundTo(payment.price),
+      downPayment: roundTo(payment.downPayment),
+      loanAmount: roundTo(payment.loanAmount),
+      loanToValue: roundTo(payment.loanToValue, 4),
+      principalAndInterest: roundTo(payment.principalAndInterest),
+      propertyTax: roundTo(payment.propertyTax),
+      insurance: roundTo(payment.insurance),
+      pmi: roundTo(payment.pmi),
+      hoa: roundTo(payment.hoa),
+      total: roundTo(payment.total),
+    };
+  }
+
+  private inDollars<T extends { data: Record<string, any>[] }>(result: T, deflator: Deflator | null) {
+    if (!deflator) {
+      return result;
+    }
+
+    return {
+      ...result,
+      data: result.data.map((row) => deflator.deflate(row)),
+      dollars: deflator.describe(),
+    };
+  }
+
+  private withSources<T extends PeriodRow, S extends PeriodRow>(rows: T[], sourceRows: S[]) {
+    const key = (row: PeriodRow) => `${row.countyId}-${row.year}-${row.month}`;
+    const byPeriod = new Map<string, S[]>();
+
+    for (const row of sourceRows) {
+      byPeriod.set(key(row), [...(byPeriod.get(key(row)) ?? []), row]);
+    }
+
+    return rows.map((row) => ({ ...row, sources: byPeriod.get(key(row)) ?? [] }));
+  }
+
+  // Residential-ratio weighted mean over the counties that have a value
+  private allocate<T extends { allocation: { residential: number } }>(
+    entries: T[],
+    value: (entry: T) => number | undefined,
+  ): number | null {
+    const weighted = entries.filter((entry) => typeof value(entry) === 'number' && entry.allocation.residential > 0);
+    const weight = weighted.reduce((sum, entry) => sum + entry.allocation.residential, 0);
+
+    return weight > 0
+      ? weighted.reduce((sum, entry) => sum + value(entry) * entry.allocation.residential, 0) / weight
+      : null;
+  }
+
+  private async findMetro(cbsaCode: string) {
+    const metro = await this.prisma.metro.findUnique({
+      where: { cbsaCode },
+      include: {
+        counties: {
+          select: {
+            id: true,
+            name: true,
+            state: true,
+            stateCode: true,
+            fipsCode: true,
+            population: true,
+            medianIncome: true,
+          },
+          orderBy: [{ state: 'asc' }, { name: 'asc' }],
+        },
+      },
+    });
+
+    if (!metro) {
+      throw new NotFoundException('Metro not found');
+    }
+
+    return metro;
+  }
+
+  // Aggregates have no MarketTrend rollup, so `trends` is always empty
+  private async getAggregateTrends(
+    region: { level: AggregateLevel; code: string; name: string },
+    query: TrendRangeQueryDto,
+  ) {
+    const deflator = await this.inflationService.deflator(query.dollars, query.base);
+    const range = this.trendRange(query, new Date());
+    const where = { level: region.level, regionCode: region.code, ...this.periodRangeWhere(range) };
+
+    const [housingData, rentData] = await Promise.all([
+      this.prisma.housingAggregate.findMany({ where, orderBy: [{ year: 'asc' }, { month: 'asc' }] }),
+      this.prisma.rentAggregate.findMany({ where, orderBy: [{ year: 'asc' }, { month: 'asc' }] }),
+    ]);
+
+    return {
+      region,
+      ...this.trendSeries(range, query.granularity, { housingData, rentData, trends: [] }, deflator),
+    };
+  }
+
+  /**
+   * Resolves the months a trends query covers: `from`..`to` when given,
+   * otherwise `period` months back from `to` (default: the month of `endDate`).
+   */
+  private trendRange(query: Pick<GetMarketTrendsDto, 'period' | 'from' | 'to'>, endDate: Date): TrendRange {
+    const parse = (value: string) => {
+      const [year, month] = value.split('-').map(Number);
+      return periodIndex(year, month);
+    };
+
+    const to = query.to ? parse(query.to) : periodIndex(endDate.getFullYear(), endDate.getMonth() + 1);
+    // Both ends are included, so a 1y range is `to` and the 11 months before it
+    const from = query.from ? parse(query.from) : to - (PERIOD_MONTHS[query.period] ?? 12) + 1;
+
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+
+    return { period: query.from ? 'custom' : query.period ?? '1y', from, to };
+  }
+
+  private periodRangeWhere(range: TrendRange) {
+    const from = periodOf(range.from);
+    const to = periodOf(range.to);
+
+    return {
+      AND: [
+        { OR: [{ year: { gt: from.year } }, { year: from.year, month: { gte: from.month } }] },
+        { OR: [{ year: { lt: to.year } }, { year: to.year, month: { lte: to.month } }] },
+      ],
+    };
+  }
+
+  // Deflates monthly rows first so bucketed values and changes are in the same dollars
+  private trendSeries(
+    range: TrendRange,
+    granularity: TrendGranularity,
+    series: { housingData: PeriodPoint[]; rentData: PeriodPoint[]; trends: PeriodPoint[] },
+    deflator: Deflator | null,
+  ) {
+    const months = GRANULARITY_MONTHS[granularity];
+    const deflate = (rows: PeriodPoint[]) =>
+      deflator ? rows.map((row) => deflator.deflate(row)) : rows;
+    const bucket = (rows: PeriodPoint[], fields: ResampleFields) =>
+      months === 1 ? rows : resample(rows, months, fields);
+
+    const housingData = bucket(deflate(series.housingData), HOUSING_SERIES_FIELDS);
+    const rentData = bucket(deflate(series.rentData), RENT_SERIES_FIELDS);
+    return {
+      period: range.period,
+      from: formatPeriod(range.from),
+      to: formatPeriod(range.to),
+      granularity,
+      housingData,
+      rentData,
+      trends: bucket(series.trends, TREND_SERIES_FIELDS),
+      summary: this.calculateTrendSummary(housingData, rentData, 12 / months),
+      ...(deflator && { dollars: deflator.describe() }),
+    };
+  }
+
+  private calculateTrendSummary(housingData: PeriodPoint[], rentData: PeriodPoint[], periodsPerYear = 12) {
+    const points = (rows: PeriodPoint[], field: string) => rows
+      .filter((row) => typeof row[field] === 'number')
+      .map((row) => ({ index: periodIndex(row.year, row.month), value: row[field] as number }));
+    const housing = points(housingData, 'medianHomePrice');
+    const rent = points(rentData, 'medianRent');
+
+    if (housing.length < 2 || rent.length < 2) {
+      return null;
+    }
+
+    const change = (series: { index: number; value: number }[]) => {
+      const first = series[0].value;
+      const last = series[series.length - 1].value;
+
+      return {
+        absolute: last - first,
+        percentage: ((last - first) / first) * 100,
+        ...seriesStatistics(series, periodsPerYear),
+      };
+    };
+
+    return {
+      homePriceChange: change(housing),
+      rentChange: change(rent),
     };
   }
 
-  private getAffordabilityRecommendations(rentRatio: number, homeRatio: number) {
+  private getAffordabilityRecommendations(
+    rentRatio: number,
+    homePayment: number,
+    maxHousingPayment: number,
+    requiredIncome: number,
+  ) {
     const recommendations = [];
 
     if (rentRatio <= 0.3) {
@@ -380,12 +1299,14 @@ export class HousingService {
       recommendations.push('Rent exceeds recommended 30% of income');
     }
 
-    if (homeRatio <= 3.5) {
-      recommendations.push('Home prices are within affordable range');
-    } else if (homeRatio <= 5) {
-      recommendations.push('Home prices are moderately high for your income');
+    if (homePayment <= maxHousingPayment) {
+      recommendations.push('The median home payment is within your debt-to-income limits');
+    } else if (homePayment <= maxHousingPayment * 1.25) {
+      recommendations.push('The median home payment is moderately high for your income');
     } else {
-      recommendations.push('Home prices significantly exceed affordable range');
+      recommendations.push(
+        `The median home payment significantly exceeds your limits; it needs an income of about $${Math.ceil(requiredIncome).toLocaleString('en-US')}`,
+      );
     }
 
     return recommendations;
@@ -0,0 +1,40 @@
+import { DataSource } from '@prisma/client';
+import { IngestionResult, SourceRecords, SyncScope } from './source-records.interface';
+
+export const DATA_SOURCE_ADAPTERS = Symbol('DATA_SOURCE_ADAPTERS');
+
+export interface RejectedRecord {
+  key: string;
+  reason: string;
+}
+
+export interface ValidationResult {
+  records: SourceRecords;
+  rejected: RejectedRecord[];
+}
+
+/** A unit of work that is checkpointed independently within a sync job. */
+export interface SyncPartition {
+  key: string;
+  scope: SyncScope;
+}
+
+export interface DataSourceAdapterInfo {
+  name: string;
+  source: DataSource;
+  cadence: string;
+  metrics: string[];
+}
+
+/**
+ * A feed that can be synced through the `data-sync` queue. Adapters are
+ * resolved by name from the DataSourceRegistry, so new feeds only need to
+ * implement this interface and be registered with the module.
+ */
+export interface DataSourceAdapter<TRaw = unknown> extends DataSourceAdapterInfo {
+  partition(scope: SyncScope): SyncPartition[];
+  fetch(scope: SyncScope): Promise<TRaw>;
+  normalize(raw: TRaw, scope: SyncScope): SourceRecords;
+  validate(records: SourceRecords): ValidationResult;
+  persist(records: SourceRecords, syncLogId?: string): Promise<IngestionResult>;
+}
@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+
+// Batch lineage (syncLogId) is stamped by the ingestion service
+type RecordFields<T> = Omit<T, 'id' | 'countyId' | 'county' | 'syncLogId' | 'createdAt' | 'updatedAt'>;
+
+// Source records are keyed by county FIPS code; the ingestion service
+// resolves them to County ids before upserting.
+export type HousingRecord = RecordFields<Prisma.HousingDataUncheckedCreateInput> & {
+  fipsCode: string;
+};
+
+export type RentRecord = RecordFields<Prisma.RentDataUncheckedCreateInput> & {
+  fipsCode: string;
+};
+
+export type MarketTrendRecord = RecordFields<Prisma.MarketTrendUncheckedCreateInput> & {
+  fipsCode: string;
+};
+
+export type IncomeLimitRecord = RecordFields<Prisma.IncomeLimitUncheckedCreateInput> & {
+  fipsCode: string;
+};
+
+// Economic series are national or regional, so they are not keyed by county
+export type EconomicObservationRecord = Omit<
+  Prisma.EconomicObservationUncheckedCreateInput,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+export type CountyRecord = Pick<
+  Prisma.CountyUpdateInput,
+  'population' | 'populationMoe' | 'medianIncome' | 'medianIncomeMoe' | 'acsEstimates' | 'acsYear'
+> & {
+  fipsCode: string;
+};
+
+export interface SourceRecords {
+  counties: CountyRecord[];
+  housing: HousingRecord[];
+  rent: RentRecord[];
+  trends: MarketTrendRecord[];
+  incomeLimits: IncomeLimitRecord[];
+  economic: EconomicObservationRecord[];
+}
+
+/** Progress of one adapter within a sync job, saved after every partition. */
+export interface SourceCheckpoint {
+  logId: string;
+  // Partition keys (usually state codes) already persisted
+  completed: string[];
+  processed: number;
+  failed: number;
+  quarantined: number;
+  // County records (demographics) written, which feed the derived ratios
+  countiesUpdated: number;
+  errors: string[];
+  missingPeriods: number;
+  missingPeriodSample: string[];
+}
+
+// Keyed by adapter name
+export type SyncCheckpoint = Record<string, SourceCheckpoint>;
+
+export interface DataSyncJobData {
+  source: string;
+  timestamp: string;
+  checkpoint?: SyncCheckpoint;
+}
+
+export interface SyncScope {
+  states: string[];
+  counties: { fipsCode: string; stateCode: string }[];
+  year: number;
+}
+
+export interface IngestionResult {
+  processed: number;
+  failed: number;
+  errors: string[];
+}
+
+export const emptySourceRecords = (): SourceRecords => ({
+  counties: [],
+  housing: [],
+  rent: [],
+  trends: [],
+  incomeLimits: [],
+  economic: [],
+});
@@ -0,0 +1,21 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  AggregateService,
+  REBUILD_AGGREGATES_JOB,
+  RebuildAggregatesJobData,
+} from '../services/aggregate.service';
+
+@Processor('data-sync')
+export class AggregateProcessor {
+  private readonly logger = new Logger(AggregateProcessor.name);
+
+  constructor(private aggregateService: AggregateService) {}
+
+  @Process(REBUILD_AGGREGATES_JOB)
+  async handleRebuildAggregates(job: Job<RebuildAggregatesJobData>) {
+    this.logger.log(`Rebuilding state and national aggregates queued at ${job.data.timestamp}`);
+    return this.aggregateService.rebuild();
+  }
+}
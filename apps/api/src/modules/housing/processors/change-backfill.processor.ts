@@ -0,0 +1,21 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  BACKFILL_CHANGES_JOB,
+  BackfillChangesJobData,
+  ChangeBackfillService,
+} from '../services/change-backfill.service';
+
+@Processor('data-sync')
+export class ChangeBackfillProcessor {
+  private readonly logger = new Logger(ChangeBackfillProcessor.name);
+
+  constructor(private changeBackfillService: ChangeBackfillService) {}
+
+  @Process(BACKFILL_CHANGES_JOB)
+  async handleBackfillChanges(job: Job<BackfillChangesJobData>) {
+    this.logger.log(`Backfilling YoY and MoM changes for ${job.data.countyIds.length} counties`);
+    return this.changeBackfillService.backfill(job.data.countyIds);
+  }
+}
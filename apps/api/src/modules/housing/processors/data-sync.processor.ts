@@ -1,22 +1,266 @@
 import { Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
+import { SyncStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { DataSourceRegistry } from '../adapters/data-source.registry';
+import { DataSourceAdapter, SyncPartition } from '../interfaces/data-source-adapter.interface';
+import {
+  DataSyncJobData,
+  SourceCheckpoint,
+  SyncCheckpoint,
+  SyncScope,
+} from '../interfaces/source-records.interface';
+import { ReconciliationService } from '../services/reconciliation.service';
+import { DataQualityService } from '../services/data-quality.service';
+import { MarketTrendService } from '../services/market-trend.service';
+import { AggregateService } from '../services/aggregate.service';
+
+const MAX_LOGGED_ERRORS = 50;
 
 @Processor('data-sync')
 export class DataSyncProcessor {
   private readonly logger = new Logger(DataSyncProcessor.name);
 
+  constructor(
+    private prisma: PrismaService,
+    private dataSourceRegistry: DataSourceRegistry,
+    private reconciliationService: ReconciliationService,
+    private dataQualityService: DataQualityService,
+    private marketTrendService: MarketTrendService,
+    private aggregateService: AggregateService,
+  ) {}
+
+  /**
+   * Runs every adapter partition by partition, saving a checkpoint on the job
+   * after each one. When an attempt fails, Bull retries the job with backoff
+   * and partitions recorded in the checkpoint are skipped.
+   */
   @Process('sync')
-  async handleSync(job: Job) {
-    this.logger.log(`Processing sync job ${job.id} with data:`, job.data);
-    
-    // TODO: Implement actual data sync logic
-    // This will fetch data from external APIs and update the database
-    
+  async handleSync(job: Job<DataSyncJobData>) {
+    this.logger.log(
+      `Processing sync job ${job.id} for source: ${job.data.source} (attempt ${job.attemptsMade + 1})`,
+    );
+
+    const names = job.data.source === 'all'
+      ? this.dataSourceRegistry.names()
+      : [job.data.source];
+    const adapters = names.map((name) => this.dataSourceRegistry.get(name));
+
+    // Resumed attempts keep the original sync year
+    const scope = await this.buildScope(new Date(job.data.timestamp).getFullYear());
+    const plan = adapters.map((adapter) => ({ adapter, partitions: adapter.partition(scope) }));
+    const checkpoint: SyncCheckpoint = { ...job.data.checkpoint };
+    const totalPartitions = plan.reduce((sum, entry) => sum + entry.partitions.length, 0);
+    const results = [];
+
+    for (const { adapter, partitions } of plan) {
+      results.push(await this.syncSource(adapter, partitions, scope, checkpoint, job, totalPartitions));
+    }
+
+    const countiesUpdated = Object.values(checkpoint).some((state) => state.countiesUpdated > 0);
+    const reconciled = await this.reconcile(results.map((result) => result.id), scope, countiesUpdated);
+
+    const failed = results.filter((result) => result.status === SyncStatus.FAILED);
+    if (failed.length > 0) {
+      throw new Error(`Sync failed for ${failed.map((result) => result.adapter).join(', ')}`);
+    }
+
     return {
       success: true,
+      processed: results.reduce((sum, result) => sum + result.recordsProcessed, 0),
+      failed: results.reduce((sum, result) => sum + result.recordsFailed, 0),
+      syncs: results,
+      reconciled,
+    };
+  }
+
+  // Only the county-months the job's batches wrote are reconciled, so feeds
+  // without housing or rent rows (e.g. FRED series) skip it. Source rows are
+  // already committed, so a reconciliation failure is logged rather than
+  // failing the job; the next sync rebuilds the canonical rows and
+  // everything derived from them.
+  private async reconcile(syncLogIds: string[], scope: SyncScope, countiesUpdated: boolean) {
+    try {
+      const where = { syncLogId: { in: syncLogIds } };
+      const select = { countyId: true, year: true, month: true };
+      const periods = [
+        ...await this.prisma.housingData.findMany({ where, select }),
+        ...await this.prisma.rentData.findMany({ where, select }),
+      ];
+
+      // Ratios and aggregates also read county income and population
+      if (countiesUpdated) {
+        const countyIds = await this.scopeCountyIds(scope);
+        await this.marketTrendService.enqueue(countyIds);
+        await this.aggregateService.enqueue();
+      }
+
+      if (periods.length === 0) {
+        return null;
+      }
+
+      const { reconciled } = await this.reconciliationService.reconcileAndRefresh({ periods });
+      return reconciled;
+    } catch (error) {
+      this.logger.error(`Reconciliation failed: ${error.message}`, error.stack);
+      return null;
+    }
+  }
+
+  private async syncSource(
+    adapter: DataSourceAdapter,
+    partitions: SyncPartition[],
+    scope: SyncScope,
+    checkpoint: SyncCheckpoint,
+    job: Job<DataSyncJobData>,
+    totalPartitions: number,
+  ) {
+    const state = checkpoint[adapter.name] ?? await this.startSource(adapter, job);
+    checkpoint[adapter.name] = state;
+
+    const metadata = () => ({
+      jobId: String(job.id),
+      states: scope.states.length,
+      year: scope.year,
+      partitions: partitions.length,
+      completedPartitions: state.completed.length,
+      missingPeriods: state.missingPeriods,
+      missingPeriodSample: state.missingPeriodSample,
+    });
+    const counts = () => ({
+      recordsProcessed: state.processed,
+      recordsFailed: state.failed,
+      recordsQuarantined: state.quarantined,
+    });
+
+    await this.prisma.dataSyncLog.update({
+      where: { id: state.logId },
+      data: { status: SyncStatus.IN_PROGRESS, completedAt: null, error: null },
+    });
+
+    for (const partition of partitions) {
+      if (state.completed.includes(partition.key)) continue;
+
+      try {
+        await this.syncPartition(adapter, partition, state);
+      } catch (error) {
+        this.logger.error(
+          `Sync for ${adapter.name} failed at ${partition.key}: ${error.message}`,
+          error.stack,
+        );
+        await this.saveCheckpoint(job, checkpoint);
+
+        return this.prisma.dataSyncLog.update({
+          where: { id: state.logId },
+          data: {
+            ...counts(),
+            status: SyncStatus.FAILED,
+            completedAt: new Date(),
+            error: `${partition.key}: ${error.message}`,
+            metadata: metadata(),
+          },
+        });
+      }
+
+      await this.saveCheckpoint(job, checkpoint);
+      await job.progress(this.progress(checkpoint, totalPartitions));
+    }
+
+    return this.prisma.dataSyncLog.update({
+      where: { id: state.logId },
+      data: {
+        ...counts(),
+        status: SyncStatus.COMPLETED,
+        completedAt: new Date(),
+        error: state.errors.length > 0 ? state.errors.join('\n') : null,
+        metadata: metadata(),
+      },
+    });
+  }
+
+  private async syncPartition(adapter: DataSourceAdapter, partition: SyncPartition, state: SourceCheckpoint) {
+    const raw = await adapter.fetch(partition.scope);
+    const { records, rejected } = adapter.validate(adapter.normalize(raw, partition.scope));
+    const quality = await this.dataQualityService.check(records);
+    const result = await adapter.persist(quality.records, state.logId);
+    // Quarantine after persisting so a retried partition does not quarantine twice
+    const quarantined = await this.dataQualityService.quarantine(state.logId, quality.quarantined);
+
+    state.processed += result.processed;
+    state.failed += result.failed + rejected.length;
+    state.quarantined += quarantined;
+    state.countiesUpdated += quality.records.counties.length;
+    state.errors = [
+      ...state.errors,
+      ...rejected.map((record) => `${record.key}: ${record.reason}`),
+      ...result.errors,
+    ].slice(0, MAX_LOGGED_ERRORS);
+    state.missingPeriods += quality.missingPeriods.length;
+    state.missingPeriodSample = [
+      ...state.missingPeriodSample,
+      ...quality.missingPeriods.map(({ fipsCode, recordType, year, month }) =>
+        `${recordType} ${fipsCode} ${year}-${String(month).padStart(2, '0')}`),
+    ].slice(0, MAX_LOGGED_ERRORS);
+    state.completed.push(partition.key);
+  }
+
+  private async startSource(adapter: DataSourceAdapter, job: Job<DataSyncJobData>): Promise<SourceCheckpoint> {
+    const log = await this.prisma.dataSyncLog.create({
+      data: {
+        source: adapter.source,
+        adapter: adapter.name,
+        status: SyncStatus.PENDING,
+        startedAt: new Date(),
+        metadata: { jobId: String(job.id) },
+      },
+    });
+
+    return {
+      logId: log.id,
+      completed: [],
       processed: 0,
-      message: 'Data sync processor not yet implemented',
+      failed: 0,
+      quarantined: 0,
+      countiesUpdated: 0,
+      errors: [],
+      missingPeriods: 0,
+      missingPeriodSample: [],
+    };
+  }
+
+  private saveCheckpoint(job: Job<DataSyncJobData>, checkpoint: SyncCheckpoint) {
+    return job.update({ ...job.data, checkpoint });
+  }
+
+  private progress(checkpoint: SyncCheckpoint, totalPartitions: number): number {
+    if (totalPartitions === 0) {
+      return 100;
+    }
+
+    const completed = Object.values(checkpoint).reduce((sum, state) => sum + state.completed.length, 0);
+    return Math.round((completed / totalPartitions) * 100);
+  }
+
+  private async scopeCountyIds(scope: SyncScope): Promise<string[]> {
+    const counties = await this.prisma.county.findMany({
+      where: { fipsCode: { in: scope.counties.map((county) => county.fipsCode) } },
+      select: { id: true },
+    });
+
+    return counties.map((county) => county.id);
+  }
+
+  private async buildScope(year: number): Promise<SyncScope> {
+    const counties = await this.prisma.county.findMany({
+      select: { fipsCode: true, stateCode: true },
+      orderBy: [{ stateCode: 'asc' }, { fipsCode: 'asc' }],
+    });
+
+    return {
+      states: Array.from(new Set(counties.map((county) => county.stateCode))),
+      counties,
+      year,
     };
   }
 }
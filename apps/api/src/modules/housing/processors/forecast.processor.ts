@@ -0,0 +1,21 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  COMPUTE_FORECASTS_JOB,
+  ComputeForecastsJobData,
+  ForecastService,
+} from '../services/forecast.service';
+
+@Processor('data-sync')
+export class ForecastProcessor {
+  private readonly logger = new Logger(ForecastProcessor.name);
+
+  constructor(private forecastService: ForecastService) {}
+
+  @Process(COMPUTE_FORECASTS_JOB)
+  async handleComputeForecasts(job: Job<ComputeForecastsJobData>) {
+    this.logger.log(`Fitting price and rent forecasts for ${job.data.countyIds.length} counties`);
+    return this.forecastService.compute(job.data.countyIds);
+  }
+}
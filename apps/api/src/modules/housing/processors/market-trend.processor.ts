@@ -0,0 +1,21 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  COMPUTE_TRENDS_JOB,
+  ComputeTrendsJobData,
+  MarketTrendService,
+} from '../services/market-trend.service';
+
+@Processor('data-sync')
+export class MarketTrendProcessor {
+  private readonly logger = new Logger(MarketTrendProcessor.name);
+
+  constructor(private marketTrendService: MarketTrendService) {}
+
+  @Process(COMPUTE_TRENDS_JOB)
+  async handleComputeTrends(job: Job<ComputeTrendsJobData>) {
+    this.logger.log(`Computing market trends for ${job.data.countyIds.length} counties`);
+    return this.marketTrendService.compute(job.data.countyIds);
+  }
+}
@@ -0,0 +1,22 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  SCHEDULED_SYNC_JOB,
+  ScheduledSyncJobData,
+  SyncScheduleService,
+} from '../services/sync-schedule.service';
+
+@Processor('data-sync')
+export class SyncScheduleProcessor {
+  private readonly logger = new Logger(SyncScheduleProcessor.name);
+
+  constructor(private syncScheduleService: SyncScheduleService) {}
+
+  @Process(SCHEDULED_SYNC_JOB)
+  async handleScheduledSync(job: Job<ScheduledSyncJobData>) {
+    this.logger.log(`Scheduled sync tick for source: ${job.data.source}`);
+    // Bull queues each repeat delayed from its creation until the tick is due
+    return this.syncScheduleService.runScheduled(job.data.source, job.timestamp + (job.opts.delay ?? 0));
+  }
+}
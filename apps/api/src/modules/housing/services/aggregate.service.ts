@@ -0,0 +1,321 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { AggregateLevel, DataSource, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  ChangeRule,
+  HOUSING_CHANGE_RULES,
+  RENT_CHANGE_RULES,
+  periodIndex,
+  roundTo,
+  seriesChanges,
+} from '../utils/series.utils';
+
+export const REBUILD_AGGREGATES_JOB = 'rebuild-aggregates';
+
+export interface RebuildAggregatesJobData {
+  timestamp: string;
+}
+
+export const NATIONAL_REGION = 'US';
+
+type AggregateKind = 'housing' | 'rent';
+
+interface AggregateFields {
+  // Averaged, weighted by county population
+  mean: string[];
+  // Summed across counties
+  sum: string[];
+  integer: string[];
+  changes: ChangeRule[];
+}
+
+const FIELDS: Record<AggregateKind, AggregateFields> = {
+  housing: {
+    mean: ['medianHomePrice', 'averageHomePrice', 'pricePerSqft', 'daysOnMarket'],
+    sum: ['inventoryCount', 'salesVolume'],
+    integer: ['daysOnMarket'],
+    changes: HOUSING_CHANGE_RULES,
+  },
+  rent: {
+    mean: [
+      'studioRent',
+      'oneBedRent',
+      'twoBedRent',
+      'threeBedRent',
+      'fourBedRent',
+      'medianRent',
+      'averageRent',
+      'vacancyRate',
+    ],
+    sum: ['availableUnits'],
+    integer: [],
+    changes: RENT_CHANGE_RULES,
+  },
+};
+
+interface PeriodTotals {
+  year: number;
+  month: number;
+  countyCount: number;
+  population: number;
+  weighted: Record<string, { total: number; weight: number }>;
+  // Summed fields by county, so changes can be taken over matching counties
+  sums: Record<string, Map<string, number>>;
+}
+
+interface AggregatePoint {
+  year: number;
+  month: number;
+  countyCount: number;
+  population: number;
+  [field: string]: number | null;
+}
+
+// The operations rebuild uses, which both aggregate tables support
+interface AggregateDelegate {
+  upsert(args: {
+    where: { level_regionCode_year_month: { level: AggregateLevel; regionCode: string; year: number; month: number } };
+    create: Prisma.HousingAggregateUncheckedCreateInput & Prisma.RentAggregateUncheckedCreateInput;
+    update: Prisma.HousingAggregateUncheckedUpdateInput & Prisma.RentAggregateUncheckedUpdateInput;
+  }): Promise<unknown>;
+  deleteMany(args: {
+    where: Prisma.HousingAggregateWhereInput & Prisma.RentAggregateWhereInput;
+  }): Promise<Prisma.BatchPayload>;
+}
+
+/**
+ * Rolls reconciled county HousingData and RentData up to states, metros
+ * (CBSAs) and the nation. Prices, rents, rates and days on market are
+ * population-weighted means over the counties reporting each field;
+ * inventory, sales and unit counts are summed. Counties without a population
+ * estimate are left out. YoY and MoM changes are computed on the aggregate
+ * series; changes of summed counts only over the counties reporting in both
+ * periods, so a county joining or leaving the region does not read as a
+ * change.
+ */
+@Injectable()
+export class AggregateService {
+  private readonly logger = new Logger(AggregateService.name);
+
+  constructor(
+    @InjectQueue('data-sync') private dataSyncQueue: Queue,
+    private prisma: PrismaService,
+  ) {}
+
+  async enqueue() {
+    const jobData: RebuildAggregatesJobData = { timestamp: new Date().toISOString() };
+    return this.dataSyncQueue.add(REBUILD_AGGREGATES_JOB, jobData, {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 30_000 },
+      removeOnComplete: 100,
+    });
+  }
+
+  /** Rebuilds every state, metro and the national series. */
+  async rebuild() {
+    const counties = await this.prisma.county.findMany({
+      where: { population: { gt: 0 } },
+      select: { id: true, stateCode: true, population: true, metro: { select: { cbsaCode: true } } },
+    });
+    const byState = new Map<string, typeof counties>();
+    const byMetro = new Map<string, typeof counties>();
+    for (const county of counties) {
+      byState.set(county.stateCode, [...(byState.get(county.stateCode) ?? []), county]);
+      if (county.metro) {
+        byMetro.set(county.metro.cbsaCode, [...(byMetro.get(county.metro.cbsaCode) ?? []), county]);
+      }
+    }
+
+    const result = { states: byState.size, metros: byMetro.size, housing: 0, rent: 0 };
+
+    for (const kind of ['housing', 'rent'] as AggregateKind[]) {
+      const national = new Map<number, PeriodTotals>();
+
+      for (const [stateCode, stateCounties] of byState) {
+        const population = new Map(stateCounties.map((county) => [county.id, county.population]));
+        const rows = await this.loadRows(kind, Array.from(population.keys()));
+        const state = new Map<number, PeriodTotals>();
+
+        for (const row of rows) {
+          this.add(state, kind, row, population.get(row.countyId));
+          this.add(national, kind, row, population.get(row.countyId));
+        }
+
+        result[kind] += await this.write(kind, AggregateLevel.STATE, stateCode, state);
+      }
+
+      for (const [cbsaCode, metroCounties] of byMetro) {
+        const population = new Map(metroCounties.map((county) => [county.id, county.population]));
+        const metro = new Map<number, PeriodTotals>();
+
+        for (const row of await this.loadRows(kind, Array.from(population.keys()))) {
+          this.add(metro, kind, row, population.get(row.countyId));
+        }
+
+        result[kind] += await this.write(kind, AggregateLevel.METRO, cbsaCode, metro);
+      }
+
+      // Metros dropped from the delineation
+      await this.delegateFor(kind).deleteMany({
+        where: { level: AggregateLevel.METRO, regionCode: { notIn: Array.from(byMetro.keys()) } },
+      });
+
+      result[kind] += await this.write(kind, AggregateLevel.NATIONAL, NATIONAL_REGION, national);
+    }
+
+    this.logger.log(
+      `Rebuilt ${result.housing} housing and ${result.rent} rent aggregate periods ` +
+        `for ${result.states} states, ${result.metros} metros and the nation`,
+    );
+
+    return result;
+  }
+
+  private loadRows(kind: AggregateKind, countyIds: string[]): Promise<Record<string, any>[]> {
+    const fields = FIELDS[kind];
+    const where = { countyId: { in: countyIds }, source: DataSource.CALCULATED };
+    const select = Object.fromEntries(
+      ['countyId', 'year', 'month', ...fields.mean, ...fields.sum].map((field) => [field, true]),
+    );
+
+    return kind === 'housing'
+      ? this.prisma.housingData.findMany({ where, select })
+      : this.prisma.rentData.findMany({ where, select });
+  }
+
+  private add(periods: Map<number, PeriodTotals>, kind: AggregateKind, row: Record<string, any>, population: number) {
+    const index = periodIndex(row.year, row.month);
+    const totals = periods.get(index) ?? {
+      year: row.year,
+      month: row.month,
+      countyCount: 0,
+      population: 0,
+      weighted: {},
+      sums: {},
+    };
+    periods.set(index, totals);
+
+    totals.countyCount++;
+    totals.population += population;
+
+    for (const field of FIELDS[kind].mean) {
+      if (typeof row[field] !== 'number') continue;
+      const entry = totals.weighted[field] ?? { total: 0, weight: 0 };
+      entry.total += row[field] * population;
+      entry.weight += population;
+      totals.weighted[field] = entry;
+    }
+
+    for (const field of FIELDS[kind].sum) {
+      if (typeof row[field] !== 'number') continue;
+      totals.sums[field] = (totals.sums[field] ?? new Map()).set(row.countyId, row[field]);
+    }
+  }
+
+  private async write(
+    kind: AggregateKind,
+    level: AggregateLevel,
+    regionCode: string,
+    periods: Map<number, PeriodTotals>,
+  ): Promise<number> {
+    const fields = FIELDS[kind];
+    const delegate = this.delegateFor(kind);
+    const levelRules = fields.changes.filter((rule) => !fields.sum.includes(rule.field));
+    const countRules = fields.changes.filter((rule) => fields.sum.includes(rule.field));
+    const points = new Map<number, AggregatePoint>();
+
+    for (const [index, totals] of periods) {
+      const point: AggregatePoint = {
+        year: totals.year,
+        month: totals.month,
+        countyCount: totals.countyCount,
+        population: totals.population,
+      };
+
+      for (const field of fields.mean) {
+        const entry = totals.weighted[field];
+        const value = entry ? entry.total / entry.weight : null;
+        point[field] = value === null ? null : fields.integer.includes(field) ? Math.round(value) : roundTo(value);
+      }
+
+      for (const field of fields.sum) {
+        point[field] = totals.sums[field] ? this.total(totals.sums[field]) : null;
+      }
+
+      points.set(index, point);
+    }
+
+    for (const [index, point] of points) {
+      const totals = periods.get(index);
+      const data = {
+        ...point,
+        ...seriesChanges(point, points.get(index - 1), points.get(index - 12), levelRules),
+        ...this.matchedChanges(totals, periods.get(index - 1), periods.get(index - 12), countRules),
+      };
+
+      await delegate.upsert({
+        where: {
+          level_regionCode_year_month: { level, regionCode, year: point.year, month: point.month },
+        },
+        create: { ...data, level, regionCode },
+        update: data,
+      });
+    }
+
+    // Periods no county reports any more
+    await delegate.deleteMany({
+      where: {
+        level,
+        regionCode,
+        NOT: Array.from(points.values()).map(({ year, month }) => ({ year, month })),
+      },
+    });
+
+    return points.size;
+  }
+
+  // Changes of summed counts, each against the counties the compared period shares
+  private matchedChanges(
+    totals: PeriodTotals,
+    lastMonth: PeriodTotals | undefined,
+    lastYear: PeriodTotals | undefined,
+    rules: ChangeRule[],
+  ): Record<string, number> {
+    const changes: Record<string, number> = {};
+
+    for (const rule of rules) {
+      const month = this.matched(rule.field, totals, lastMonth);
+      const year = this.matched(rule.field, totals, lastYear);
+
+      Object.assign(
+        changes,
+        month && seriesChanges(month.current, month.previous, undefined, [rule]),
+        year && seriesChanges(year.current, undefined, year.previous, [rule]),
+      );
+    }
+
+    return changes;
+  }
+
+  private matched(field: string, totals: PeriodTotals, previous: PeriodTotals | undefined) {
+    const current = totals.sums[field];
+    const prior = previous?.sums[field];
+    if (!current || !prior) return null;
+
+    const shared = Array.from(current.keys()).filter((countyId) => prior.has(countyId));
+    if (shared.length === 0) return null;
+
+    const sum = (values: Map<string, number>) => shared.reduce((total, countyId) => total + values.get(countyId), 0);
+    return { current: { [field]: sum(current) }, previous: { [field]: sum(prior) } };
+  }
+
+  private total(values: Map<string, number>): number {
+    return Array.from(values.values()).reduce((sum, value) => sum + value, 0);
+  }
+
+  private delegateFor(kind: AggregateKind): AggregateDelegate {
+    return kind === 'housing' ? this.prisma.housingAggregate : this.prisma.rentAggregate;
+  }
+}
@@ -1,6 +1,44 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { Prisma } from '@prisma/client';
+import {
+  CountyRecord,
+  SourceRecords,
+  SyncScope,
+  emptySourceRecords,
+} from '../interfaces/source-records.interface';
+
+export interface AcsEstimate {
+  estimate: number | null;
+  moe: number | null;
+  variable: string;
+}
+
+export type AcsEstimates = Record<string, AcsEstimate>;
+
+// ACS 5-year table ids (without the E/M suffix) keyed by the metric name we store
+const POPULATION_VARIABLES = {
+  population: 'B01003_001',
+  medianIncome: 'B19013_001',
+};
+
+const HOUSING_VARIABLES = {
+  medianHomeValue: 'B25077_001',
+  medianGrossRent: 'B25064_001',
+  housingUnits: 'B25001_001',
+  vacantUnits: 'B25002_003',
+  ownerOccupiedUnits: 'B25003_002',
+  renterOccupiedUnits: 'B25003_003',
+};
+
+// Census annotation values: -555555555 marks a controlled estimate whose
+// margin of error is zero; other large negatives mean "not available".
+const CONTROLLED_MOE = -555555555;
+
+// 5-year estimates are released roughly a year after the survey period ends
+const ACS_RELEASE_LAG_YEARS = 2;
 
 @Injectable()
 export class CensusApiService {
@@ -16,15 +54,107 @@ export class CensusApiService {
     this.apiKey = this.configService.get('externalApis.census.apiKey');
   }
 
-  async getHousingData(state: string, county: string) {
-    // TODO: Implement Census API integration
-    this.logger.log(`Fetching housing data for ${county}, ${state}`);
-    return {};
+  async fetchSyncRecords(scope: SyncScope): Promise<SourceRecords> {
+    const records = emptySourceRecords();
+    const acsYear = scope.year - ACS_RELEASE_LAG_YEARS;
+    const knownCounties = new Set(scope.counties.map((county) => county.fipsCode));
+    const stateFipsCodes = Array.from(
+      new Set(scope.counties.map((county) => county.fipsCode.slice(0, 2))),
+    );
+
+    for (const stateFips of stateFipsCodes) {
+      const [population, housing] = await Promise.all([
+        this.getPopulationData(stateFips, acsYear),
+        this.getHousingData(stateFips, acsYear),
+      ]);
+
+      for (const [fipsCode, estimates] of population) {
+        if (!knownCounties.has(fipsCode)) continue;
+        records.counties.push(
+          this.toCountyRecord(fipsCode, acsYear, { ...estimates, ...housing.get(fipsCode) }),
+        );
+      }
+    }
+
+    return records;
+  }
+
+  async getHousingData(state: string, year: number): Promise<Map<string, AcsEstimates>> {
+    this.logger.log(`Fetching ACS housing data for state ${state} (${year})`);
+    return this.getAcsEstimates(state, year, HOUSING_VARIABLES);
+  }
+
+  async getPopulationData(state: string, year: number): Promise<Map<string, AcsEstimates>> {
+    this.logger.log(`Fetching ACS population data for state ${state} (${year})`);
+    return this.getAcsEstimates(state, year, POPULATION_VARIABLES);
+  }
+
+  private async getAcsEstimates(
+    stateFips: string,
+    year: number,
+    variables: Record<string, string>,
+  ): Promise<Map<string, AcsEstimates>> {
+    const columns = Object.values(variables).flatMap((variable) => [`${variable}E`, `${variable}M`]);
+    const response = await firstValueFrom(
+      this.httpService.get<string[][]>(`${this.apiUrl}/${year}/acs/acs5`, {
+        params: {
+          get: columns.join(','),
+          for: 'county:*',
+          in: `state:${stateFips}`,
+          key: this.apiKey || undefined,
+        },
+      }),
+    );
+
+    // The Census API returns a header row followed by one row per county
+    const [header, ...rows] = response.data ?? [];
+    const results = new Map<string, AcsEstimates>();
+    if (!header) {
+      return results;
+    }
+
+    const column = (name: string) => header.indexOf(name);
+
+    for (const row of rows) {
+      const fipsCode = `${row[column('state')]}${row[column('county')]}`;
+      const estimates: AcsEstimates = {};
+
+      for (const [metric, variable] of Object.entries(variables)) {
+        estimates[metric] = {
+          estimate: this.parseEstimate(row[column(`${variable}E`)]),
+          moe: this.parseMarginOfError(row[column(`${variable}M`)]),
+          variable,
+        };
+      }
+
+      results.set(fipsCode, estimates);
+    }
+
+    return results;
+  }
+
+  private toCountyRecord(fipsCode: string, acsYear: number, estimates: AcsEstimates): CountyRecord {
+    const { population, medianIncome } = estimates;
+
+    return {
+      fipsCode,
+      population: population?.estimate ?? undefined,
+      populationMoe: population?.moe ?? undefined,
+      medianIncome: medianIncome?.estimate ?? undefined,
+      medianIncomeMoe: medianIncome?.moe ?? undefined,
+      acsEstimates: estimates as unknown as Prisma.InputJsonValue,
+      acsYear,
+    };
+  }
+
+  private parseEstimate(value: string): number | null {
+    const parsed = Number(value);
+    return value !== null && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
   }
 
-  async getPopulationData(state: string, county: string) {
-    // TODO: Implement Census API integration
-    this.logger.log(`Fetching population data for ${county}, ${state}`);
-    return {};
+  private parseMarginOfError(value: string): number | null {
+    const parsed = Number(value);
+    if (parsed === CONTROLLED_MOE) return 0;
+    return value !== null && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
   }
 }
@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { IngestionTable } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { VintageService } from './vintage.service';
+import {
+  ChangeRule,
+  HOUSING_CHANGE_RULES,
+  RENT_CHANGE_RULES,
+  periodIndex,
+  seriesChanges,
+} from '../utils/series.utils';
+
+export const BACKFILL_CHANGES_JOB = 'backfill-changes';
+
+export interface BackfillChangesJobData {
+  countyIds: string[];
+  timestamp: string;
+}
+
+interface SeriesRow {
+  id: string;
+  source: string;
+  year: number;
+  month: number;
+  [field: string]: unknown;
+}
+
+/**
+ * Fills the YoY and MoM change columns of HousingData and RentData from the
+ * stored series, per county and source. Every run recomputes whole series but
+ * only writes rows whose changes differ, so a revised month rewrites just the
+ * following month and the same month a year later. A change stays as the
+ * source supplied it when the comparison period is not stored; reconciliation
+ * only writes levels, so CALCULATED rows get their changes from here alone.
+ */
+@Injectable()
+export class ChangeBackfillService {
+  private readonly logger = new Logger(ChangeBackfillService.name);
+
+  constructor(
+    @InjectQueue('data-sync') private dataSyncQueue: Queue,
+    private prisma: PrismaService,
+    private vintageService: VintageService,
+  ) {}
+
+  async enqueue(countyIds: string[]) {
+    const jobData: BackfillChangesJobData = { countyIds, timestamp: new Date().toISOString() };
+    return this.dataSyncQueue.add(BACKFILL_CHANGES_JOB, jobData, {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 30_000 },
+      removeOnComplete: 100,
+    });
+  }
+
+  /** Defaults to all counties. */
+  async backfill(countyIds?: string[]) {
+    const ids = countyIds ?? (
+      await this.prisma.county.findMany({ select: { id: true } })
+    ).map((county) => county.id);
+
+    const result = { counties: ids.length, housing: 0, rent: 0 };
+
+    for (const countyId of ids) {
+      const [housingRows, rentRows] = await Promise.all([
+        this.prisma.housingData.findMany({ where: { countyId } }),
+        this.prisma.rentData.findMany({ where: { countyId } }),
+      ]);
+
+      for (const { id, data } of this.changedRows(housingRows, HOUSING_CHANGE_RULES)) {
+        const row = await this.prisma.housingData.update({ where: { id }, data });
+        await this.vintageService.record(IngestionTable.HOUSING_DATA, row);
+        result.housing++;
+      }
+
+      for (const { id, data } of this.changedRows(rentRows, RENT_CHANGE_RULES)) {
+        const row = await this.prisma.rentData.update({ where: { id }, data });
+        await this.vintageService.record(IngestionTable.RENT_DATA, row);
+        result.rent++;
+      }
+    }
+
+    this.logger.log(
+      `Backfilled changes on ${result.housing} housing and ${result.rent} rent rows ` +
+        `across ${result.counties} counties`,
+    );
+
+    return result;
+  }
+
+  private changedRows(rows: SeriesRow[], rules: ChangeRule[]) {
+    const byPeriod = new Map(rows.map((row) => [this.key(row.source, periodIndex(row.year, row.month)), row]));
+    const updates: { id: string; data: Record<string, number> }[] = [];
+
+    for (const row of rows) {
+      const index = periodIndex(row.year, row.month);
+      const changes = seriesChanges(
+        row,
+        byPeriod.get(this.key(row.source, index - 1)),
+        byPeriod.get(this.key(row.source, index - 12)),
+        rules,
+      );
+      const data = Object.fromEntries(
+        Object.entries(changes).filter(([field, value]) => row[field] !== value),
+      );
+
+      if (Object.keys(data).length > 0) {
+        updates.push({ id: row.id, data });
+      }
+    }
+
+    return updates;
+  }
+
+  private key(source: string, index: number): string {
+    return `${source}:${index}`;
+  }
+}
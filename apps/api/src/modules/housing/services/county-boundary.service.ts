@@ -0,0 +1,168 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import {
+  AreaGeometry,
+  BoundingBox,
+  boundingBox,
+  centroid,
+  simplify,
+} from '../utils/geo.utils';
+
+export interface SimplificationLevel {
+  name: string;
+  // Douglas-Peucker tolerance in degrees
+  tolerance: number;
+  // Smallest map zoom at which this level is served
+  minZoom: number;
+}
+
+export interface CountyBounds {
+  bbox: BoundingBox;
+  levels: SimplificationLevel[];
+  geometries: Record<string, AreaGeometry>;
+}
+
+export const DEFAULT_SIMPLIFICATION_LEVELS: SimplificationLevel[] = [
+  { name: 'low', tolerance: 0.05, minZoom: 0 },
+  { name: 'medium', tolerance: 0.01, minZoom: 6 },
+  { name: 'high', tolerance: 0.001, minZoom: 9 },
+];
+
+interface CountyFeature {
+  type: 'Feature';
+  properties: Record<string, any>;
+  geometry: AreaGeometry | null;
+}
+
+@Injectable()
+export class CountyBoundaryService {
+  private readonly logger = new Logger(CountyBoundaryService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Loads a GeoJSON FeatureCollection of counties (e.g. a TIGER/Line or
+   * cartographic boundary file converted with ogr2ogr) and stores centroids
+   * and simplified polygons on each County matched by FIPS code.
+   */
+  async importFromFile(
+    filePath: string,
+    levels: SimplificationLevel[] = DEFAULT_SIMPLIFICATION_LEVELS,
+  ) {
+    const collection = JSON.parse(await fs.readFile(filePath, 'utf8'));
+
+    if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+      throw new Error(`${filePath} is not a GeoJSON FeatureCollection`);
+    }
+
+    const features: CountyFeature[] = collection.features;
+    const counties = await this.prisma.county.findMany({
+      select: { id: true, fipsCode: true },
+    });
+    const countyIds = new Map(counties.map((county) => [county.fipsCode, county.id]));
+
+    const result = { features: features.length, updated: 0, unmatched: [] as string[], skipped: 0 };
+    const sortedLevels = [...levels].sort((a, b) => a.minZoom - b.minZoom);
+
+    for (const feature of features) {
+      const fipsCode = this.fipsCodeOf(feature.properties ?? {});
+      const geometry = feature.geometry;
+
+      if (!fipsCode || !geometry || !['Polygon', 'MultiPolygon'].includes(geometry.type)) {
+        result.skipped++;
+        continue;
+      }
+
+      const countyId = countyIds.get(fipsCode);
+      if (!countyId) {
+        result.unmatched.push(fipsCode);
+        continue;
+      }
+
+      const [longitude, latitude] = this.markerPosition(feature.properties, geometry);
+      const bounds: CountyBounds = {
+        bbox: boundingBox(geometry),
+        levels: sortedLevels,
+        geometries: Object.fromEntries(
+          sortedLevels.map((level) => [level.name, simplify(geometry, level.tolerance)]),
+        ),
+      };
+
+      await this.prisma.county.update({
+        where: { id: countyId },
+        data: { latitude, longitude, bounds: bounds as unknown as Prisma.InputJsonValue },
+      });
+      result.updated++;
+    }
+
+    this.logger.log(
+      `Imported boundaries for ${result.updated} counties ` +
+        `(${result.unmatched.length} unmatched, ${result.skipped} skipped)`,
+    );
+
+    return result;
+  }
+
+  async getBoundary(countyId: string, zoom?: number, level?: string) {
+    const county = await this.prisma.county.findUnique({
+      where: { id: countyId },
+      select: { id: true, name: true, fipsCode: true, latitude: true, longitude: true, bounds: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('County not found');
+    }
+
+    const bounds = county.bounds as unknown as CountyBounds | null;
+    if (!bounds?.geometries) {
+      throw new NotFoundException('No boundary available for this county');
+    }
+
+    const selected = level
+      ? bounds.levels.find((candidate) => candidate.name === level)
+      : [...bounds.levels].reverse().find((candidate) => (zoom ?? 0) >= candidate.minZoom);
+
+    if (!selected) {
+      throw new NotFoundException(`Unknown simplification level "${level}"`);
+    }
+
+    return {
+      type: 'Feature',
+      properties: {
+        id: county.id,
+        name: county.name,
+        fipsCode: county.fipsCode,
+        latitude: county.latitude,
+        longitude: county.longitude,
+        level: selected.name,
+      },
+      bbox: bounds.bbox,
+      geometry: bounds.geometries[selected.name],
+    };
+  }
+
+  private fipsCodeOf(properties: Record<string, any>): string | null {
+    if (properties.GEOID) return String(properties.GEOID).padStart(5, '0');
+    if (properties.STATEFP && properties.COUNTYFP) {
+      return `${properties.STATEFP}${properties.COUNTYFP}`;
+    }
+    const fips = properties.fipsCode ?? properties.fips ?? properties.FIPS;
+    return fips ? String(fips).padStart(5, '0') : null;
+  }
+
+  private markerPosition(properties: Record<string, any>, geometry: AreaGeometry): [number, number] {
+    // TIGER files carry an internal point that is guaranteed to lie inside
+    // the county; fall back to the computed centroid otherwise.
+    const latitude = parseFloat(properties.INTPTLAT);
+    const longitude = parseFloat(properties.INTPTLON);
+
+    if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
+      return [longitude, latitude];
+    }
+
+    const [minX, minY, maxX, maxY] = boundingBox(geometry);
+    return centroid(geometry) ?? [(minX + maxX) / 2, (minY + maxY) / 2];
+  }
+}
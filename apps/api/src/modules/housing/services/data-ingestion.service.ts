@@ -0,0 +1,270 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IngestionAction, IngestionTable, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { VintageRow, VintageService } from './vintage.service';
+import {
+  IngestionResult,
+  SourceRecords,
+} from '../interfaces/source-records.interface';
+
+const MAX_REPORTED_ERRORS = 50;
+
+// Columns left out of the previous-value snapshot; CALCULATED-only
+// reconciliation metadata never appears on source rows
+const SNAPSHOT_EXCLUDED = ['id', 'createdAt', 'updatedAt', 'reconciliation'];
+
+@Injectable()
+export class DataIngestionService {
+  private readonly logger = new Logger(DataIngestionService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private vintageService: VintageService,
+  ) {}
+
+  /**
+   * Upserts source records. When a sync log id is given, every HousingData,
+   * RentData and MarketTrend row written is stamped with it and an
+   * IngestionChange keeps the values it replaced. Those rows are also
+   * versioned as DataVintages whenever their values change.
+   *
+   * Given a transaction client, every write joins that transaction and the
+   * first failing record is thrown instead of counted, so the caller can roll
+   * the whole batch back.
+   */
+  async persist(
+    records: SourceRecords,
+    syncLogId?: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<IngestionResult> {
+    const result: IngestionResult = { processed: 0, failed: 0, errors: [] };
+    const atomic = client !== this.prisma;
+
+    const fipsCodes = [
+      ...records.counties,
+      ...records.housing,
+      ...records.rent,
+      ...records.trends,
+      ...records.incomeLimits,
+    ].map((record) => record.fipsCode);
+    const countyIds = await this.resolveCountyIds(fipsCodes, client);
+
+    for (const { fipsCode, ...data } of records.counties) {
+      await this.upsertRecord(result, atomic, countyIds, fipsCode, (countyId) =>
+        client.county.update({
+          where: { id: countyId },
+          data,
+        }),
+      );
+    }
+
+    for (const { fipsCode, ...data } of records.housing) {
+      await this.upsertRecord(result, atomic, countyIds, fipsCode, (countyId) => {
+        const where = {
+          countyId_year_month_source: {
+            countyId,
+            year: data.year,
+            month: data.month,
+            source: data.source,
+          },
+        };
+
+        return this.withLineage(
+          client,
+          syncLogId,
+          IngestionTable.HOUSING_DATA,
+          (tx) => tx.housingData.findUnique({ where }),
+          (tx) => tx.housingData.upsert({
+            where,
+            create: { ...data, countyId, syncLogId },
+            update: { ...data, syncLogId },
+          }),
+        );
+      });
+    }
+
+    for (const { fipsCode, ...data } of records.rent) {
+      await this.upsertRecord(result, atomic, countyIds, fipsCode, (countyId) => {
+        const where = {
+          countyId_year_month_source: {
+            countyId,
+            year: data.year,
+            month: data.month,
+            source: data.source,
+          },
+        };
+
+        return this.withLineage(
+          client,
+          syncLogId,
+          IngestionTable.RENT_DATA,
+          (tx) => tx.rentData.findUnique({ where }),
+          (tx) => tx.rentData.upsert({
+            where,
+            create: { ...data, countyId, syncLogId },
+            update: { ...data, syncLogId },
+          }),
+        );
+      });
+    }
+
+    for (const { fipsCode, ...data } of records.trends) {
+      await this.upsertRecord(result, atomic, countyIds, fipsCode, (countyId) => {
+        const where = {
+          countyId_year_month: {
+            countyId,
+            year: data.year,
+            month: data.month,
+          },
+        };
+
+        return this.withLineage(
+          client,
+          syncLogId,
+          IngestionTable.MARKET_TREND,
+          (tx) => tx.marketTrend.findUnique({ where }),
+          (tx) => tx.marketTrend.upsert({
+            where,
+            create: { ...data, countyId, syncLogId },
+            update: { ...data, syncLogId },
+          }),
+        );
+      });
+    }
+
+    for (const { fipsCode, ...data } of records.incomeLimits) {
+      await this.upsertRecord(result, atomic, countyIds, fipsCode, (countyId) =>
+        client.incomeLimit.upsert({
+          where: {
+            countyId_year_householdSize: {
+              countyId,
+              year: data.year,
+              householdSize: data.householdSize,
+            },
+          },
+          create: { ...data, countyId },
+          update: data,
+        }),
+      );
+    }
+
+    for (const data of records.economic) {
+      await this.track(result, atomic, `${data.seriesId}/${data.geography}`, () =>
+        client.economicObservation.upsert({
+          where: {
+            seriesId_geography_date: {
+              seriesId: data.seriesId,
+              geography: data.geography,
+              date: data.date,
+            },
+          },
+          create: data,
+          update: data,
+        }),
+      );
+    }
+
+    return result;
+  }
+
+  private async withLineage<T extends VintageRow>(
+    client: Prisma.TransactionClient,
+    syncLogId: string | undefined,
+    table: IngestionTable,
+    find: (tx: Prisma.TransactionClient) => Promise<T | null>,
+    write: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    if (!syncLogId) {
+      return this.transact(client, async (tx) => {
+        const record = await write(tx);
+        await this.vintageService.record(table, record, tx);
+        return record;
+      });
+    }
+
+    return this.transact(client, async (tx) => {
+      const previous = await find(tx);
+      const record = await write(tx);
+      await this.vintageService.record(table, record, tx);
+
+      await tx.ingestionChange.create({
+        data: {
+          syncLogId,
+          table,
+          recordId: record.id,
+          action: previous ? IngestionAction.UPDATE : IngestionAction.CREATE,
+          previous: previous
+            ? (Object.fromEntries(
+              Object.entries(previous).filter(([key]) => !SNAPSHOT_EXCLUDED.includes(key)),
+            ) as Prisma.InputJsonObject)
+            : undefined,
+        },
+      });
+
+      return record;
+    });
+  }
+
+  // Each record gets its own transaction unless the caller already opened one
+  private transact<T>(
+    client: Prisma.TransactionClient,
+    run: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return client === this.prisma ? this.prisma.$transaction(run) : run(client);
+  }
+
+  private async resolveCountyIds(
+    fipsCodes: string[],
+    client: Prisma.TransactionClient,
+  ): Promise<Map<string, string>> {
+    if (fipsCodes.length === 0) {
+      return new Map();
+    }
+
+    const counties = await client.county.findMany({
+      where: { fipsCode: { in: Array.from(new Set(fipsCodes)) } },
+      select: { id: true, fipsCode: true },
+    });
+
+    return new Map(counties.map((county) => [county.fipsCode, county.id]));
+  }
+
+  private async upsertRecord(
+    result: IngestionResult,
+    atomic: boolean,
+    countyIds: Map<string, string>,
+    fipsCode: string,
+    upsert: (countyId: string) => Promise<unknown>,
+  ) {
+    await this.track(result, atomic, fipsCode, () => {
+      const countyId = countyIds.get(fipsCode);
+      if (!countyId) {
+        throw new Error(`Unknown county FIPS code ${fipsCode}`);
+      }
+
+      return upsert(countyId);
+    });
+  }
+
+  private async track(
+    result: IngestionResult,
+    atomic: boolean,
+    key: string,
+    write: () => Promise<unknown>,
+  ) {
+    try {
+      await write();
+      result.processed++;
+    } catch (error) {
+      if (atomic) {
+        throw new Error(`${key}: ${error.message}`);
+      }
+
+      result.failed++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push(`${key}: ${error.message}`);
+      }
+      this.logger.warn(`Failed to persist record for ${key}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,404 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DataSource, Prisma, QuarantineStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { DataIngestionService } from './data-ingestion.service';
+import { ReconciliationService } from './reconciliation.service';
+import { GetQuarantineDto } from '../dto/get-quarantine.dto';
+import {
+  HousingRecord,
+  RentRecord,
+  SourceRecords,
+  emptySourceRecords,
+} from '../interfaces/source-records.interface';
+import { periodIndex, periodOf } from '../utils/series.utils';
+
+type CheckedRecordType = 'housing' | 'rent';
+type CheckedRecord = HousingRecord | RentRecord;
+
+export interface QuarantineCandidate {
+  recordType: CheckedRecordType;
+  record: CheckedRecord;
+  reasons: string[];
+}
+
+export interface MissingPeriod {
+  fipsCode: string;
+  recordType: CheckedRecordType;
+  year: number;
+  month: number;
+}
+
+export interface QualityReport {
+  records: SourceRecords;
+  quarantined: QuarantineCandidate[];
+  missingPeriods: MissingPeriod[];
+}
+
+interface RangeRule {
+  field: string;
+  min: number;
+  max: number;
+}
+
+// Plausible bounds for county-level figures; anything outside is a feed error
+const RANGE_RULES: Record<CheckedRecordType, RangeRule[]> = {
+  housing: [
+    { field: 'medianHomePrice', min: 10_000, max: 20_000_000 },
+    { field: 'averageHomePrice', min: 10_000, max: 20_000_000 },
+    { field: 'pricePerSqft', min: 5, max: 10_000 },
+    { field: 'daysOnMarket', min: 0, max: 730 },
+    { field: 'priceChangeYoY', min: -75, max: 150 },
+    { field: 'inventoryChangeYoY', min: -100, max: 500 },
+  ],
+  rent: [
+    { field: 'medianRent', min: 100, max: 20_000 },
+    { field: 'averageRent', min: 100, max: 20_000 },
+    { field: 'studioRent', min: 100, max: 20_000 },
+    { field: 'oneBedRent', min: 100, max: 20_000 },
+    { field: 'twoBedRent', min: 100, max: 20_000 },
+    { field: 'threeBedRent', min: 100, max: 20_000 },
+    { field: 'fourBedRent', min: 100, max: 20_000 },
+    { field: 'vacancyRate', min: 0, max: 100 },
+    { field: 'rentChangeYoY', min: -75, max: 150 },
+  ],
+};
+
+const OUTLIER_FIELDS: Record<CheckedRecordType, string> = {
+  housing: 'medianHomePrice',
+  rent: 'medianRent',
+};
+
+const Z_SCORE_THRESHOLD = 4;
+// Fewer points than this make the standard deviation meaningless
+const MIN_HISTORY_POINTS = 6;
+const HISTORY_MONTHS = 36;
+
+// Stored periods before a batch considered for gaps, enough for annual feeds
+const STORED_LOOKBACK_MONTHS = 24;
+// Metadata that does not make a re-sent record differ from the stored row
+const METADATA_FIELDS = new Set(['fipsCode', 'year', 'month', 'quarter', 'source', 'sourceUrl']);
+
+// Stored rows by county and source, then by period index
+type StoredSeries = Map<string, Map<number, Record<string, any>>>;
+
+@Injectable()
+export class DataQualityService {
+  private readonly logger = new Logger(DataQualityService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private dataIngestionService: DataIngestionService,
+    private reconciliationService: ReconciliationService,
+  ) {}
+
+  /**
+   * Splits validated records into those safe to persist and those to
+   * quarantine. Records identical to the stored row of their source (a feed
+   * re-sending the same period, or a retried partition) are dropped as
+   * no-ops. Only housing and rent figures are checked; other record types
+   * pass through untouched.
+   */
+  async check(records: SourceRecords): Promise<QualityReport> {
+    const passed: SourceRecords = { ...records, housing: [], rent: [] };
+    const quarantined: QuarantineCandidate[] = [];
+    const missingPeriods: MissingPeriod[] = [];
+
+    for (const recordType of ['housing', 'rent'] as CheckedRecordType[]) {
+      const batch = records[recordType] as CheckedRecord[];
+      if (batch.length === 0) continue;
+
+      const history = await this.loadHistory(recordType, batch);
+      const stored = await this.loadStored(recordType, batch);
+      const duplicates = this.findDuplicates(batch);
+
+      batch.forEach((record, index) => {
+        if (!duplicates.has(index) && this.isUnchanged(record, stored)) return;
+
+        const reasons = [
+          ...this.checkRanges(recordType, record),
+          ...this.checkOutlier(recordType, record, history.get(record.fipsCode) ?? []),
+          ...(duplicates.has(index) ? [duplicates.get(index)] : []),
+        ];
+
+        if (reasons.length > 0) {
+          quarantined.push({ recordType, record, reasons });
+        } else {
+          (passed[recordType] as CheckedRecord[]).push(record);
+        }
+      });
+
+      missingPeriods.push(...this.findMissingPeriods(recordType, batch, stored));
+    }
+
+    return { records: passed, quarantined, missingPeriods };
+  }
+
+  async quarantine(syncLogId: string | null, candidates: QuarantineCandidate[]) {
+    if (candidates.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.quarantinedRecord.createMany({
+      data: candidates.map(({ recordType, record, reasons }) => ({
+        syncLogId,
+        source: record.source,
+        recordType,
+        fipsCode: record.fipsCode,
+        year: record.year,
+        month: record.month,
+        payload: record as unknown as Prisma.InputJsonValue,
+        reasons,
+      })),
+    });
+
+    this.logger.warn(`Quarantined ${count} records${syncLogId ? ` for sync ${syncLogId}` : ''}`);
+    return count;
+  }
+
+  async list(query: GetQuarantineDto) {
+    const where: Prisma.QuarantinedRecordWhereInput = {
+      status: query.status ?? QuarantineStatus.PENDING,
+    };
+
+    if (query.source) {
+      where.source = query.source;
+    }
+
+    if (query.syncLogId) {
+      where.syncLogId = query.syncLogId;
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.quarantinedRecord.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      this.prisma.quarantinedRecord.count({ where }),
+    ]);
+
+    return {
+      data,
+      pagination: {
+        total,
+        page: query.page,
+        limit: query.limit,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+
+  /** Persists a quarantined record as-is and refreshes the reconciled row. */
+  async approve(id: string, userId?: string) {
+    const record = await this.findPending(id);
+
+    const records = emptySourceRecords();
+    (records[record.recordType as CheckedRecordType] as CheckedRecord[]).push(
+      record.payload as unknown as CheckedRecord,
+    );
+
+    // Approved rows join the batch that quarantined them, so rolling that
+    // batch back removes them too
+    const result = await this.dataIngestionService.persist(records, record.syncLogId ?? undefined);
+    if (result.failed > 0) {
+      throw new BadRequestException(`Unable to persist record: ${result.errors.join('; ')}`);
+    }
+
+    const county = await this.prisma.county.findUnique({
+      where: { fipsCode: record.fipsCode },
+      select: { id: true },
+    });
+    if (county) {
+      await this.reconciliationService.reconcileAndRefresh({ countyIds: [county.id] });
+    }
+
+    return this.review(id, QuarantineStatus.APPROVED, userId);
+  }
+
+  async reject(id: string, userId?: string) {
+    await this.findPending(id);
+    return this.review(id, QuarantineStatus.REJECTED, userId);
+  }
+
+  private async findPending(id: string) {
+    const record = await this.prisma.quarantinedRecord.findUnique({ where: { id } });
+
+    if (!record) {
+      throw new NotFoundException('Quarantined record not found');
+    }
+
+    if (record.status !== QuarantineStatus.PENDING) {
+      throw new BadRequestException(`Record was already ${record.status.toLowerCase()}`);
+    }
+
+    return record;
+  }
+
+  private review(id: string, status: QuarantineStatus, userId?: string) {
+    return this.prisma.quarantinedRecord.update({
+      where: { id },
+      data: { status, reviewedBy: userId, reviewedAt: new Date() },
+    });
+  }
+
+  private checkRanges(recordType: CheckedRecordType, record: CheckedRecord): string[] {
+    return RANGE_RULES[recordType]
+      .filter(({ field, min, max }) => {
+        const value = record[field];
+        return typeof value === 'number' && (value < min || value > max);
+      })
+      .map(({ field, min, max }) => `${field} ${record[field]} outside ${min}..${max}`);
+  }
+
+  private checkOutlier(recordType: CheckedRecordType, record: CheckedRecord, history: number[]): string[] {
+    const field = OUTLIER_FIELDS[recordType];
+    const value = record[field];
+
+    if (typeof value !== 'number' || history.length < MIN_HISTORY_POINTS) {
+      return [];
+    }
+
+    const mean = history.reduce((sum, point) => sum + point, 0) / history.length;
+    const stdDev = Math.sqrt(
+      history.reduce((sum, point) => sum + (point - mean) ** 2, 0) / history.length,
+    );
+    if (stdDev === 0) {
+      return [];
+    }
+
+    const zScore = (value - mean) / stdDev;
+    return Math.abs(zScore) > Z_SCORE_THRESHOLD
+      ? [`${field} ${value} is ${zScore.toFixed(1)} standard deviations from the county's history`]
+      : [];
+  }
+
+  /** Maps the index of every county-month repeated within the batch to the reason it is rejected. */
+  private findDuplicates(batch: CheckedRecord[]): Map<number, string> {
+    const seen = new Map<string, number>();
+    const duplicates = new Map<number, string>();
+
+    batch.forEach((record, index) => {
+      const key = `${record.fipsCode}-${record.year}-${record.month}-${record.source}`;
+
+      if (seen.has(key)) {
+        duplicates.set(index, `duplicate of batch record ${seen.get(key)} for ${record.year}-${record.month}`);
+      } else {
+        seen.set(key, index);
+      }
+    });
+
+    return duplicates;
+  }
+
+  // A re-sent month with new values is a revision and is checked like any other record
+  private isUnchanged(record: CheckedRecord, stored: StoredSeries): boolean {
+    const storedRow = stored
+      .get(this.seriesKey(record.fipsCode, record.source))
+      ?.get(periodIndex(record.year, record.month));
+
+    return !!storedRow && Object.entries(record)
+      .filter(([field]) => !METADATA_FIELDS.has(field))
+      .every(([field, value]) => (value ?? null) === (storedRow[field] ?? null));
+  }
+
+  /**
+   * Reports gaps in each county's series per source at the cadence the feed
+   * uses, taken as the smallest step between its periods (monthly,
+   * quarterly, ...). Stored periods count, so a batch that does not pick up
+   * where the stored series ends is reported; gaps between stored periods
+   * only are not.
+   */
+  private findMissingPeriods(
+    recordType: CheckedRecordType,
+    batch: CheckedRecord[],
+    stored: StoredSeries,
+  ): MissingPeriod[] {
+    const incoming = new Map<string, { fipsCode: string; periods: Set<number> }>();
+
+    for (const record of batch) {
+      const key = this.seriesKey(record.fipsCode, record.source);
+      const series = incoming.get(key) ?? { fipsCode: record.fipsCode, periods: new Set<number>() };
+      series.periods.add(periodIndex(record.year, record.month));
+      incoming.set(key, series);
+    }
+
+    const missing: MissingPeriod[] = [];
+
+    for (const [key, { fipsCode, periods: batchPeriods }] of incoming) {
+      const periods = Array.from(new Set([...batchPeriods, ...(stored.get(key)?.keys() ?? [])]))
+        .sort((a, b) => a - b);
+      if (periods.length < 2) continue;
+
+      const steps = periods.slice(1).map((period, i) => period - periods[i]);
+      const cadence = Math.min(...steps);
+
+      for (let i = 1; i < periods.length; i++) {
+        if (!batchPeriods.has(periods[i - 1]) && !batchPeriods.has(periods[i])) continue;
+
+        for (let period = periods[i - 1] + cadence; period < periods[i]; period += cadence) {
+          missing.push({ fipsCode, recordType, ...periodOf(period) });
+        }
+      }
+    }
+
+    return missing;
+  }
+
+  // Stored rows of the batch's counties and sources, from shortly before its first period
+  private async loadStored(recordType: CheckedRecordType, batch: CheckedRecord[]): Promise<StoredSeries> {
+    const first = batch.reduce((min, record) => Math.min(min, periodIndex(record.year, record.month)), Infinity);
+    const from = periodOf(first - STORED_LOOKBACK_MONTHS);
+
+    const where = {
+      county: { fipsCode: { in: Array.from(new Set(batch.map((record) => record.fipsCode))) } },
+      source: { in: Array.from(new Set(batch.map((record) => record.source))) },
+      OR: [{ year: { gt: from.year } }, { year: from.year, month: { gte: from.month } }],
+    };
+    const include = { county: { select: { fipsCode: true } } };
+
+    const rows: Record<string, any>[] = recordType === 'housing'
+      ? await this.prisma.housingData.findMany({ where, include })
+      : await this.prisma.rentData.findMany({ where, include });
+
+    const stored: StoredSeries = new Map();
+    for (const row of rows) {
+      const key = this.seriesKey(row.county.fipsCode, row.source);
+      stored.set(key, (stored.get(key) ?? new Map()).set(periodIndex(row.year, row.month), row));
+    }
+
+    return stored;
+  }
+
+  private seriesKey(fipsCode: string, source: DataSource): string {
+    return `${fipsCode}-${source}`;
+  }
+
+  private async loadHistory(recordType: CheckedRecordType, batch: CheckedRecord[]) {
+    const field = OUTLIER_FIELDS[recordType];
+    const since = new Date();
+    since.setMonth(since.getMonth() - HISTORY_MONTHS);
+
+    const where = {
+      county: { fipsCode: { in: Array.from(new Set(batch.map((record) => record.fipsCode))) } },
+      source: DataSource.CALCULATED,
+      OR: [
+        { year: { gt: since.getFullYear() } },
+        { year: since.getFullYear(), month: { gte: since.getMonth() + 1 } },
+      ],
+    };
+    const select = { [field]: true, county: { select: { fipsCode: true } } };
+
+    const rows: Record<string, any>[] = recordType === 'housing'
+      ? await this.prisma.housingData.findMany({ where, select })
+      : await this.prisma.rentData.findMany({ where, select });
+
+    const history = new Map<string, number[]>();
+    for (const row of rows) {
+      const fipsCode = row.county.fipsCode;
+      history.set(fipsCode, [...(history.get(fipsCode) ?? []), row[field]]);
+    }
+
+    return history;
+  }
+}
@@ -1,7 +1,20 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
+import { Job, JobOptions, Queue } from 'bull';
+import { QuarantineStatus, SyncStatus } from '@prisma/client';
 import { PrismaService } from '../../database/prisma.service';
+import { DataSourceRegistry } from '../adapters/data-source.registry';
+import { DataSyncJobData } from '../interfaces/source-records.interface';
+
+// Retries resume from the job's checkpoint, so backoff only needs to ride out
+// upstream outages: 1, 2, 4, 8 minutes between the five attempts.
+const SYNC_JOB_OPTIONS: JobOptions = {
+  attempts: 5,
+  backoff: { type: 'exponential', delay: 60_000 },
+  removeOnComplete: 100,
+};
+
+const FAILED_JOBS_LIMIT = 50;
 
 @Injectable()
 export class DataSyncService {
@@ -10,15 +23,25 @@ export class DataSyncService {
   constructor(
     @InjectQueue('data-sync') private dataSyncQueue: Queue,
     private prisma: PrismaService,
+    private dataSourceRegistry: DataSourceRegistry,
   ) {}
 
   async triggerSync(source?: string) {
-    this.logger.log(`Triggering data sync for source: ${source || 'all'}`);
-    
-    const job = await this.dataSyncQueue.add('sync', {
-      source: source || 'all',
+    const normalizedSource = !source || source.toLowerCase() === 'all' ? 'all' : source;
+
+    if (normalizedSource !== 'all' && !this.dataSourceRegistry.has(normalizedSource)) {
+      throw new BadRequestException(
+        `Unknown sync source "${source}". Expected one of: all, ${this.dataSourceRegistry.names().join(', ')}`,
+      );
+    }
+
+    this.logger.log(`Triggering data sync for source: ${normalizedSource}`);
+
+    const jobData: DataSyncJobData = {
+      source: normalizedSource,
       timestamp: new Date().toISOString(),
-    });
+    };
+    const job = await this.dataSyncQueue.add('sync', jobData, SYNC_JOB_OPTIONS);
 
     return {
       jobId: job.id,
@@ -27,6 +50,85 @@ export class DataSyncService {
     };
   }
 
+  async getFailedJobs() {
+    const jobs: Job<DataSyncJobData>[] = await this.dataSyncQueue.getFailed(0, FAILED_JOBS_LIMIT - 1);
+
+    return jobs.map((job) => ({
+      jobId: job.id,
+      source: job.data.source,
+      queuedAt: job.data.timestamp,
+      failedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason,
+      checkpoint: Object.fromEntries(
+        Object.entries(job.data.checkpoint ?? {}).map(([adapter, state]) => [
+          adapter,
+          { logId: state.logId, completed: state.completed.length, processed: state.processed },
+        ]),
+      ),
+    }));
+  }
+
+  /**
+   * Replays a failed job as a new job with its data, so it resumes from the
+   * saved checkpoint with a fresh set of attempts (Bull's own retry keeps the
+   * attempts already used). The failed job is removed once its replay is queued.
+   */
+  async retryJob(jobId: string) {
+    const job = await this.findJob(jobId);
+    const state = await job.getState();
+
+    if (state !== 'failed') {
+      throw new BadRequestException(`Only failed jobs can be retried; job ${jobId} is ${state}`);
+    }
+
+    const replay = await this.dataSyncQueue.add(job.name, job.data, SYNC_JOB_OPTIONS);
+    await job.remove();
+    this.logger.log(`Retrying sync job ${jobId} as job ${replay.id}`);
+
+    return {
+      jobId: replay.id,
+      retriedJobId: job.id,
+      status: 'queued',
+      message: `Sync job ${jobId} re-queued as job ${replay.id}`,
+    };
+  }
+
+  async removeJob(jobId: string) {
+    const job = await this.findJob(jobId);
+    const state = await job.getState();
+
+    if (state === 'active') {
+      throw new BadRequestException(`Job ${jobId} is running and cannot be removed`);
+    }
+
+    await job.remove();
+
+    // Logs of partially synced sources would otherwise stay FAILED or PENDING
+    // with no job left to resume them
+    const logIds = Object.values((job.data as DataSyncJobData).checkpoint ?? {}).map((entry) => entry.logId);
+    await this.prisma.dataSyncLog.updateMany({
+      where: { id: { in: logIds }, status: { not: SyncStatus.COMPLETED } },
+      data: { status: SyncStatus.FAILED, completedAt: new Date(), error: 'Sync job removed' },
+    });
+
+    return { jobId: job.id, status: 'removed' };
+  }
+
+  private async findJob(jobId: string): Promise<Job<DataSyncJobData>> {
+    const job = await this.dataSyncQueue.getJob(jobId);
+
+    if (!job) {
+      throw new NotFoundException(`Sync job ${jobId} not found`);
+    }
+
+    return job;
+  }
+
+  getSources() {
+    return this.dataSourceRegistry.list();
+  }
+
   async getSyncStatus() {
     const [active, waiting, completed, failed] = await Promise.all([
       this.dataSyncQueue.getActiveCount(),
@@ -35,10 +137,15 @@ export class DataSyncService {
       this.dataSyncQueue.getFailedCount(),
     ]);
 
-    const recentLogs = await this.prisma.dataSyncLog.findMany({
-      orderBy: { startedAt: 'desc' },
-      take: 10,
-    });
+    const [recentLogs, pendingQuarantine] = await Promise.all([
+      this.prisma.dataSyncLog.findMany({
+        orderBy: { startedAt: 'desc' },
+        take: 10,
+      }),
+      this.prisma.quarantinedRecord.count({
+        where: { status: QuarantineStatus.PENDING },
+      }),
+    ]);
 
     return {
       queue: {
@@ -47,6 +154,9 @@ export class DataSyncService {
         completed,
         failed,
       },
+      quarantine: {
+        pending: pendingQuarantine,
+      },
       recentSyncs: recentLogs,
     };
   }
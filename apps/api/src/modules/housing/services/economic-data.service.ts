@@ -0,0 +1,54 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { GetEconomicSeriesDto } from '../dto/get-economic-series.dto';
+import { NATIONAL_GEOGRAPHY } from './fred-api.service';
+
+@Injectable()
+export class EconomicDataService {
+  constructor(private prisma: PrismaService) {}
+
+  async getSeries(seriesId: string, query: GetEconomicSeriesDto) {
+    const where: Prisma.EconomicObservationWhereInput = {
+      seriesId: seriesId.toUpperCase(),
+    };
+
+    if (query.geography) {
+      where.geography = query.geography.toUpperCase();
+    }
+
+    if (query.from || query.to) {
+      where.date = {
+        gte: query.from ? new Date(query.from) : undefined,
+        lte: query.to ? new Date(query.to) : undefined,
+      };
+    }
+
+    const observations = await this.prisma.economicObservation.findMany({
+      where,
+      select: { geography: true, date: true, value: true },
+      orderBy: [{ geography: 'asc' }, { date: 'asc' }],
+    });
+
+    if (observations.length === 0) {
+      throw new NotFoundException(`No observations found for series ${seriesId}`);
+    }
+
+    return {
+      seriesId: where.seriesId,
+      geography: query.geography?.toUpperCase() ?? null,
+      observations,
+      latest: observations[observations.length - 1],
+    };
+  }
+
+  async getLatestValue(seriesId: string, geography: string = NATIONAL_GEOGRAPHY) {
+    const latest = await this.prisma.economicObservation.findFirst({
+      where: { seriesId, geography },
+      orderBy: { date: 'desc' },
+      select: { date: true, value: true },
+    });
+
+    return latest ?? null;
+  }
+}
@@ -0,0 +1,237 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { DataSource, ForecastMetric, IngestionTable, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { VintageService } from './vintage.service';
+import { periodIndex, periodOf, roundTo } from '../utils/series.utils';
+import {
+  BacktestHorizon,
+  backtestHoltWinters,
+  fitHoltWinters,
+  forecastHoltWinters,
+} from '../utils/forecast.utils';
+
+export const COMPUTE_FORECASTS_JOB = 'compute-forecasts';
+
+export interface ComputeForecastsJobData {
+  countyIds: string[];
+  timestamp: string;
+}
+
+export const FORECAST_HORIZONS = [3, 6, 12];
+const PATH_LENGTH = Math.max(...FORECAST_HORIZONS);
+
+// 12-month backtest MAPE at which confidence reaches zero
+const ZERO_CONFIDENCE_MAPE = 20;
+
+const PREDICTED_CHANGE_FIELDS: Record<ForecastMetric, 'predictedPriceChange' | 'predictedRentChange'> = {
+  [ForecastMetric.HOME_PRICE]: 'predictedPriceChange',
+  [ForecastMetric.RENT]: 'predictedRentChange',
+};
+
+interface MetricForecast {
+  metric: ForecastMetric;
+  year: number;
+  month: number;
+  predictedChange: number;
+  confidenceScore: number | null;
+}
+
+/**
+ * Fits a Holt-Winters model per county to the reconciled monthly median home
+ * price and median rent, and stores a 12-month forecast path with prediction
+ * intervals alongside a rolling-origin backtest of the 3, 6 and 12-month
+ * forecasts.
+ *
+ * The 12-month forecast is also written to the MarketTrend row of the last
+ * observed month as predictedPriceChange / predictedRentChange (percent), with
+ * confidenceScore (0-100) falling linearly from 100 at a 0% backtest MAPE to 0
+ * at 20%; months earlier in the series keep the predictions made from them.
+ * Only the latest run of consecutive months is fitted.
+ */
+@Injectable()
+export class ForecastService {
+  private readonly logger = new Logger(ForecastService.name);
+
+  constructor(
+    @InjectQueue('data-sync') private dataSyncQueue: Queue,
+    private prisma: PrismaService,
+    private vintageService: VintageService,
+  ) {}
+
+  async enqueue(countyIds: string[]) {
+    const jobData: ComputeForecastsJobData = { countyIds, timestamp: new Date().toISOString() };
+    return this.dataSyncQueue.add(COMPUTE_FORECASTS_JOB, jobData, {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 30_000 },
+      removeOnComplete: 100,
+    });
+  }
+
+  /** Refits every county series. Defaults to all counties. */
+  async compute(countyIds?: string[]) {
+    const ids = countyIds ?? (
+      await this.prisma.county.findMany({ select: { id: true } })
+    ).map((county) => county.id);
+
+    const result = { counties: ids.length, fitted: 0, skipped: 0 };
+
+    for (const countyId of ids) {
+      const [housingRows, rentRows] = await Promise.all([
+        this.prisma.housingData.findMany({
+          where: { countyId, source: DataSource.CALCULATED, medianHomePrice: { gt: 0 } },
+          select: { year: true, month: true, medianHomePrice: true },
+          orderBy: [{ year: 'asc' }, { month: 'asc' }],
+        }),
+        this.prisma.rentData.findMany({
+          where: { countyId, source: DataSource.CALCULATED, medianRent: { gt: 0 } },
+          select: { year: true, month: true, medianRent: true },
+          orderBy: [{ year: 'asc' }, { month: 'asc' }],
+        }),
+      ]);
+
+      const forecasts = [
+        await this.fitSeries(countyId, ForecastMetric.HOME_PRICE, housingRows.map((row) => ({
+          year: row.year,
+          month: row.month,
+          value: row.medianHomePrice,
+        }))),
+        await this.fitSeries(countyId, ForecastMetric.RENT, rentRows.map((row) => ({
+          year: row.year,
+          month: row.month,
+          value: row.medianRent,
+        }))),
+      ];
+
+      for (const forecast of forecasts) {
+        forecast ? result.fitted++ : result.skipped++;
+      }
+
+      await this.writePredictions(countyId, forecasts.filter((forecast) => forecast !== null));
+    }
+
+    this.logger.log(
+      `Fitted ${result.fitted} forecasts across ${result.counties} counties ` +
+        `(${result.skipped} series too short)`,
+    );
+
+    return result;
+  }
+
+  private async fitSeries(
+    countyId: string,
+    metric: ForecastMetric,
+    rows: { year: number; month: number; value: number }[],
+  ): Promise<MetricForecast | null> {
+    const series = this.latestRun(rows);
+    const fit = fitHoltWinters(series.map((row) => row.value));
+    const where = { countyId, metric };
+
+    if (!fit) {
+      // A series that lost months must not keep serving an old forecast
+      await this.prisma.forecast.deleteMany({ where });
+      await this.prisma.forecastFit.deleteMany({ where });
+      return null;
+    }
+
+    const origin = series[series.length - 1];
+    const path = forecastHoltWinters(fit, PATH_LENGTH);
+    const backtest = backtestHoltWinters(series.map((row) => row.value), FORECAST_HORIZONS)
+      .map((horizon) => this.roundBacktest(horizon));
+    const longest = backtest[backtest.length - 1];
+    const confidenceScore = longest.mape === null
+      ? null
+      : roundTo(Math.max(0, 100 * (1 - longest.mape / ZERO_CONFIDENCE_MAPE)), 1);
+
+    const data = {
+      method: fit.seasonal ? 'holt-winters' : 'holt',
+      ...fit.params,
+      sigma: fit.sigma,
+      originYear: origin.year,
+      originMonth: origin.month,
+      observations: fit.observations,
+      backtest: backtest as unknown as Prisma.InputJsonValue,
+      confidenceScore,
+    };
+
+    await this.prisma.$transaction([
+      this.prisma.forecastFit.upsert({
+        where: { countyId_metric: where },
+        create: { ...where, ...data },
+        update: data,
+      }),
+      this.prisma.forecast.deleteMany({ where }),
+      this.prisma.forecast.createMany({
+        data: path.map((point) => ({
+          ...where,
+          ...periodOf(periodIndex(origin.year, origin.month) + point.horizon),
+          horizon: point.horizon,
+          value: roundTo(point.value),
+          lower80: roundTo(point.lower80),
+          upper80: roundTo(point.upper80),
+          lower95: roundTo(point.lower95),
+          upper95: roundTo(point.upper95),
+        })),
+      }),
+    ]);
+
+    return {
+      metric,
+      year: origin.year,
+      month: origin.month,
+      predictedChange: roundTo((path[PATH_LENGTH - 1].value / origin.value - 1) * 100),
+      confidenceScore,
+    };
+  }
+
+  // Price and rent usually end in the same month and share a MarketTrend row;
+  // its confidence is then that of the less reliable forecast
+  private async writePredictions(countyId: string, forecasts: MetricForecast[]) {
+    const periods = new Map<number, { year: number; month: number; data: Record<string, number | null> }>();
+
+    for (const forecast of forecasts) {
+      const index = periodIndex(forecast.year, forecast.month);
+      const period = periods.get(index) ?? { year: forecast.year, month: forecast.month, data: {} };
+      const scores = [period.data.confidenceScore, forecast.confidenceScore]
+        .filter((score): score is number => typeof score === 'number');
+
+      period.data[PREDICTED_CHANGE_FIELDS[forecast.metric]] = forecast.predictedChange;
+      period.data.confidenceScore = scores.length > 0 ? Math.min(...scores) : null;
+      periods.set(index, period);
+    }
+
+    for (const { year, month, data } of periods.values()) {
+      const trend = await this.prisma.marketTrend.upsert({
+        where: { countyId_year_month: { countyId, year, month } },
+        create: { ...data, countyId, year, month },
+        update: data,
+      });
+      await this.vintageService.record(IngestionTable.MARKET_TREND, trend);
+    }
+  }
+
+  /** The trailing run of consecutive months, which is what the model can be fitted to. */
+  private latestRun<T extends { year: number; month: number }>(rows: T[]): T[] {
+    let start = rows.length - 1;
+    while (
+      start > 0 &&
+      periodIndex(rows[start].year, rows[start].month) - periodIndex(rows[start - 1].year, rows[start - 1].month) === 1
+    ) {
+      start--;
+    }
+
+    return rows.slice(Math.max(start, 0));
+  }
+
+  private roundBacktest(horizon: BacktestHorizon): BacktestHorizon {
+    return {
+      horizon: horizon.horizon,
+      folds: horizon.folds,
+      mape: horizon.mape === null ? null : roundTo(horizon.mape),
+      rmse: horizon.rmse === null ? null : roundTo(horizon.rmse),
+      coverage80: horizon.coverage80 === null ? null : roundTo(horizon.coverage80),
+      naiveMape: horizon.naiveMape === null ? null : roundTo(horizon.naiveMape),
+    };
+  }
+}
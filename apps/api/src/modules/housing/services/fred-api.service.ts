@@ -1,6 +1,28 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
+import { DataSource } from '@prisma/client';
+import { firstValueFrom } from 'rxjs';
+import {
+  EconomicObservationRecord,
+  SourceRecords,
+  SyncScope,
+  emptySourceRecords,
+} from '../interfaces/source-records.interface';
+
+export const FRED_SERIES = {
+  MORTGAGE_30Y: 'MORTGAGE30US',
+  CPI: 'CPIAUCSL',
+  HOUSE_PRICE_INDEX: 'USSTHPI',
+} as const;
+
+export const NATIONAL_GEOGRAPHY = 'US';
+
+interface FredObservationsResponse {
+  observations: { date: string; value: string }[];
+}
+
+const FRED_HISTORY_YEARS = 20;
 
 @Injectable()
 export class FredApiService {
@@ -16,15 +38,69 @@ export class FredApiService {
     this.apiKey = this.configService.get('externalApis.fred.apiKey');
   }
 
-  async getEconomicData(seriesId: string) {
-    // TODO: Implement FRED API integration
+  async fetchSyncRecords(scope: SyncScope): Promise<SourceRecords> {
+    const records = emptySourceRecords();
+    const observationStart = `${scope.year - FRED_HISTORY_YEARS}-01-01`;
+
+    for (const seriesId of [FRED_SERIES.MORTGAGE_30Y, FRED_SERIES.CPI]) {
+      records.economic.push(
+        ...(await this.getEconomicData(seriesId, NATIONAL_GEOGRAPHY, observationStart)),
+      );
+    }
+
+    // One missing or failing regional series (FRED answers 400 for an unknown
+    // series) must not drop the observations already fetched
+    for (const region of [NATIONAL_GEOGRAPHY, ...scope.states]) {
+      try {
+        records.economic.push(...(await this.getHousingPriceIndex(region, observationStart)));
+      } catch (error) {
+        this.logger.warn(`Skipping housing price index for ${region}: ${error.message}`);
+      }
+    }
+
+    return records;
+  }
+
+  async getEconomicData(
+    seriesId: string,
+    geography: string = NATIONAL_GEOGRAPHY,
+    observationStart?: string,
+  ): Promise<EconomicObservationRecord[]> {
     this.logger.log(`Fetching economic data for series: ${seriesId}`);
-    return {};
+
+    const params = new URLSearchParams({ series_id: seriesId, file_type: 'json' });
+    if (observationStart) {
+      params.set('observation_start', observationStart);
+    }
+    const sourceUrl = `${this.apiUrl}/series/observations?${params}`;
+
+    const response = await firstValueFrom(
+      this.httpService.get<FredObservationsResponse>(sourceUrl, {
+        params: { api_key: this.apiKey },
+      }),
+    );
+
+    // FRED encodes missing observations as "."
+    return (response.data?.observations ?? [])
+      .filter((observation) => Number.isFinite(parseFloat(observation.value)))
+      .map((observation) => ({
+        seriesId,
+        geography,
+        date: new Date(`${observation.date}T00:00:00Z`),
+        value: parseFloat(observation.value),
+        source: DataSource.FRED,
+        sourceUrl,
+      }));
   }
 
-  async getHousingPriceIndex(region: string) {
-    // TODO: Implement FRED API integration
+  async getHousingPriceIndex(region: string, observationStart?: string) {
     this.logger.log(`Fetching housing price index for ${region}`);
-    return {};
+
+    // FHFA all-transactions HPI: USSTHPI nationally, <state>STHPI per state
+    const seriesId = region === NATIONAL_GEOGRAPHY
+      ? FRED_SERIES.HOUSE_PRICE_INDEX
+      : `${region.toUpperCase()}STHPI`;
+
+    return this.getEconomicData(seriesId, region.toUpperCase(), observationStart);
   }
 }
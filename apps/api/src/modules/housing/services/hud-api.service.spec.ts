@@ -0,0 +1,172 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Test } from '@nestjs/testing';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule } from '@nestjs/config';
+import { DataSource } from '@prisma/client';
+import configuration from '../../../config/configuration';
+import { HudApiService } from './hud-api.service';
+
+const FIXTURES = path.resolve(__dirname, '../../../../test/fixtures/hud');
+const API_KEY = 'test-key';
+
+/**
+ * Serves HUD API responses from fixtures: /fmr/statedata/VT?year=2024 is
+ * answered with fmr-statedata-VT-2024.json. Requests without the API key get
+ * a 401 and unknown paths a 404, like the live API.
+ */
+function hudStub(requests: string[]) {
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    requests.push(request.url);
+
+    if (request.headers.authorization !== `Bearer ${API_KEY}`) {
+      response.writeHead(401).end();
+      return;
+    }
+
+    const url = new URL(request.url, 'http://localhost');
+    const name = [...url.pathname.split('/').filter(Boolean), url.searchParams.get('year')].join('-');
+
+    try {
+      const body = await fs.readFile(path.join(FIXTURES, `${name}.json`));
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(body);
+    } catch {
+      response.writeHead(404, { 'Content-Type': 'application/json' }).end('{"error":"Not Found"}');
+    }
+  };
+}
+
+describe('HudApiService', () => {
+  const requests: string[] = [];
+  let server: Server;
+  let service: HudApiService;
+
+  beforeAll(async () => {
+    server = createServer(hudStub(requests));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    process.env.HUD_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.HUD_API_KEY = API_KEY;
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [HttpModule, ConfigModule.forRoot({ load: [configuration], ignoreEnvFile: true })],
+      providers: [HudApiService],
+    }).compile();
+
+    service = moduleRef.get(HudApiService);
+  });
+
+  afterAll(async () => {
+    delete process.env.HUD_API_URL;
+    delete process.env.HUD_API_KEY;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  describe('getFairMarketRents', () => {
+    it('maps county FMRs to rent rows effective October of the prior year', async () => {
+      const records = await service.getFairMarketRents('VT', 2024);
+      const addison = records.find((record) => record.fipsCode === '50001');
+
+      expect(requests).toEqual(['/fmr/statedata/VT?year=2024']);
+      expect(addison).toEqual({
+        fipsCode: '50001',
+        studioRent: 1036,
+        oneBedRent: 1043,
+        twoBedRent: 1343,
+        threeBedRent: 1703,
+        fourBedRent: 1913,
+        medianRent: 1343,
+        year: 2023,
+        month: 10,
+        quarter: 4,
+        source: DataSource.HUD,
+        sourceUrl: `${process.env.HUD_API_URL}/fmr/statedata/VT?year=2024`,
+      });
+    });
+
+    it('averages New England town entries by county, ignoring missing bedroom values', async () => {
+      const records = await service.getFairMarketRents('VT', 2024);
+      const windham = records.find((record) => record.fipsCode === '50025');
+
+      expect(windham).toMatchObject({
+        studioRent: 975,
+        oneBedRent: 1051,
+        twoBedRent: 1351,
+        threeBedRent: 1683,
+        fourBedRent: 1862,
+        medianRent: 1351,
+      });
+    });
+
+    it('skips entries without a FIPS code', async () => {
+      const records = await service.getFairMarketRents('VT', 2024);
+
+      expect(records.map((record) => record.fipsCode).sort()).toEqual(['50001', '50025']);
+    });
+
+    it('fails when HUD has no data for the state', async () => {
+      await expect(service.getFairMarketRents('ZZ', 2024)).rejects.toThrow('404');
+    });
+  });
+
+  describe('getIncomeLimits', () => {
+    it('returns 30/50/80% AMI limits for household sizes 1 to 8', async () => {
+      const records = await service.getIncomeLimits('50001', 2024);
+
+      expect(requests).toEqual(['/il/data/5000199999?year=2024']);
+      expect(records).toHaveLength(8);
+      expect(records[3]).toEqual({
+        fipsCode: '50001',
+        householdSize: 4,
+        medianFamilyIncome: 103900,
+        extremelyLowLimit: 31200,
+        veryLowLimit: 51950,
+        lowLimit: 83100,
+        year: 2024,
+        source: DataSource.HUD,
+        sourceUrl: `${process.env.HUD_API_URL}/il/data/5000199999?year=2024`,
+      });
+    });
+  });
+
+  describe('fetchSyncRecords', () => {
+    it('fetches FMRs per state and income limits per county', async () => {
+      const records = await service.fetchSyncRecords({
+        states: ['VT'],
+        counties: [
+          { fipsCode: '50001', stateCode: 'VT' },
+          { fipsCode: '50025', stateCode: 'VT' },
+        ],
+        year: 2024,
+      });
+
+      expect(records.rent).toHaveLength(2);
+      expect(records.incomeLimits).toHaveLength(16);
+      expect(requests.sort()).toEqual([
+        '/fmr/statedata/VT?year=2024',
+        '/il/data/5000199999?year=2024',
+        '/il/data/5002599999?year=2024',
+      ]);
+    });
+
+    it('skips counties HUD has no income limits for', async () => {
+      const records = await service.fetchSyncRecords({
+        states: [],
+        counties: [
+          { fipsCode: '50001', stateCode: 'VT' },
+          { fipsCode: '50099', stateCode: 'VT' },
+        ],
+        year: 2024,
+      });
+
+      expect(records.incomeLimits).toHaveLength(8);
+      expect(requests).toContain('/il/data/5009999999?year=2024');
+    });
+  });
+});
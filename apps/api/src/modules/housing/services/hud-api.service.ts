@@ -1,6 +1,63 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
+import { DataSource } from '@prisma/client';
+import { firstValueFrom, from, mergeMap, toArray } from 'rxjs';
+import {
+  IncomeLimitRecord,
+  RentRecord,
+  SourceRecords,
+  SyncScope,
+  emptySourceRecords,
+} from '../interfaces/source-records.interface';
+
+// Shape of a county entry in the HUD FMR `statedata` response
+interface HudFmrCounty {
+  county_name: string;
+  fips_code: string;
+  Efficiency: number;
+  'One-Bedroom': number;
+  'Two-Bedroom': number;
+  'Three-Bedroom': number;
+  'Four-Bedroom': number;
+}
+
+interface HudFmrStateResponse {
+  data: {
+    year: string;
+    counties: HudFmrCounty[];
+  };
+}
+
+// Shape of the HUD IL `data/{entityid}` response; limits are keyed
+// il30_p1..il30_p8 (and il50_/il80_) by household size.
+interface HudIncomeLimitResponse {
+  data: {
+    year: string;
+    median_income: number;
+    extremely_low: Record<string, number>;
+    very_low: Record<string, number>;
+    low: Record<string, number>;
+  };
+}
+
+const MAX_HUD_HOUSEHOLD_SIZE = 8;
+
+// Income limits are only published per county, so a sync makes one request
+// per county; this many run at a time.
+const INCOME_LIMIT_CONCURRENCY = 5;
+
+const BEDROOM_FIELDS = {
+  studioRent: 'Efficiency',
+  oneBedRent: 'One-Bedroom',
+  twoBedRent: 'Two-Bedroom',
+  threeBedRent: 'Three-Bedroom',
+  fourBedRent: 'Four-Bedroom',
+} as const;
+
+// FMRs are published per federal fiscal year, which starts on October 1
+// of the preceding calendar year.
+const FMR_EFFECTIVE_MONTH = 10;
 
 @Injectable()
 export class HudApiService {
@@ -16,15 +73,139 @@ export class HudApiService {
     this.apiKey = this.configService.get('externalApis.hud.apiKey');
   }
 
-  async getFairMarketRents(state: string, year: number) {
-    // TODO: Implement HUD API integration
+  async fetchSyncRecords(scope: SyncScope): Promise<SourceRecords> {
+    const records = emptySourceRecords();
+
+    for (const state of scope.states) {
+      records.rent.push(...(await this.getFairMarketRents(state, scope.year)));
+    }
+
+    const incomeLimits = await firstValueFrom(
+      from(scope.counties).pipe(
+        mergeMap((county) => this.getIncomeLimits(county.fipsCode, scope.year).catch((error) => {
+          // HUD publishes no limits for a few county equivalents; the rest still sync
+          if (error.response?.status !== 404) throw error;
+          this.logger.warn(`Skipping income limits for ${county.fipsCode}: not found at HUD`);
+          return [];
+        }), INCOME_LIMIT_CONCURRENCY),
+        toArray(),
+      ),
+    );
+    records.incomeLimits.push(...incomeLimits.flat());
+
+    return records;
+  }
+
+  async getFairMarketRents(state: string, year: number): Promise<RentRecord[]> {
     this.logger.log(`Fetching Fair Market Rents for ${state} in ${year}`);
-    return [];
+
+    const sourceUrl = `${this.apiUrl}/fmr/statedata/${state}?year=${year}`;
+    const response = await this.get<HudFmrStateResponse>(sourceUrl);
+
+    return this.mapFairMarketRents(response.data?.counties ?? [], year, sourceUrl);
+  }
+
+  async getIncomeLimits(fipsCode: string, year: number): Promise<IncomeLimitRecord[]> {
+    this.logger.log(`Fetching Income Limits for ${fipsCode} in ${year}`);
+
+    // HUD entity ids are the 5-digit county FIPS padded with 99999
+    const sourceUrl = `${this.apiUrl}/il/data/${fipsCode}99999?year=${year}`;
+    const { data } = await this.get<HudIncomeLimitResponse>(sourceUrl);
+
+    if (!data) {
+      return [];
+    }
+
+    const records: IncomeLimitRecord[] = [];
+
+    for (let householdSize = 1; householdSize <= MAX_HUD_HOUSEHOLD_SIZE; householdSize++) {
+      const extremelyLowLimit = Number(data.extremely_low?.[`il30_p${householdSize}`]);
+      const veryLowLimit = Number(data.very_low?.[`il50_p${householdSize}`]);
+      const lowLimit = Number(data.low?.[`il80_p${householdSize}`]);
+
+      if (![extremelyLowLimit, veryLowLimit, lowLimit].every(Number.isFinite)) {
+        continue;
+      }
+
+      records.push({
+        fipsCode,
+        householdSize,
+        medianFamilyIncome: Number(data.median_income) || null,
+        extremelyLowLimit,
+        veryLowLimit,
+        lowLimit,
+        year: Number(data.year) || year,
+        source: DataSource.HUD,
+        sourceUrl,
+      });
+    }
+
+    return records;
+  }
+
+  private mapFairMarketRents(counties: HudFmrCounty[], year: number, sourceUrl: string): RentRecord[] {
+    // HUD reports New England counties per town (10-digit codes sharing the
+    // 5-digit county prefix), so entries are grouped and averaged by county.
+    const byCounty = new Map<string, HudFmrCounty[]>();
+    for (const county of counties) {
+      const fipsCode = county.fips_code?.slice(0, 5);
+      if (!fipsCode) continue;
+      byCounty.set(fipsCode, [...(byCounty.get(fipsCode) ?? []), county]);
+    }
+
+    const records: RentRecord[] = [];
+
+    for (const [fipsCode, entries] of byCounty) {
+      const rents = Object.fromEntries(
+        Object.entries(BEDROOM_FIELDS).map(([column, field]) => [
+          column,
+          this.average(entries.map((entry) => Number(entry[field]))),
+        ]),
+      ) as Record<keyof typeof BEDROOM_FIELDS, number | null>;
+
+      const medianRent = this.median(Object.values(rents).filter((rent) => rent !== null));
+      if (medianRent === null) {
+        this.logger.warn(`Skipping FMR entry for ${fipsCode}: no bedroom values`);
+        continue;
+      }
+
+      records.push({
+        fipsCode,
+        ...rents,
+        medianRent,
+        year: year - 1,
+        month: FMR_EFFECTIVE_MONTH,
+        quarter: 4,
+        source: DataSource.HUD,
+        sourceUrl,
+      });
+    }
+
+    return records;
+  }
+
+  private async get<T>(url: string): Promise<T> {
+    const response = await firstValueFrom(
+      this.httpService.get<T>(url, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      }),
+    );
+
+    return response.data;
+  }
+
+  private average(values: number[]): number | null {
+    const valid = values.filter((value) => Number.isFinite(value) && value > 0);
+    if (valid.length === 0) return null;
+    return Math.round(valid.reduce((sum, value) => sum + value, 0) / valid.length);
   }
 
-  async getIncomeLimits(state: string, year: number) {
-    // TODO: Implement HUD API integration
-    this.logger.log(`Fetching Income Limits for ${state} in ${year}`);
-    return [];
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
   }
 }
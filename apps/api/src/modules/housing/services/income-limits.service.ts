@@ -0,0 +1,120 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { AmiCategory, IncomeEligibilityDto } from '../dto/income-eligibility.dto';
+
+const MAX_PUBLISHED_HOUSEHOLD_SIZE = 8;
+// HUD extends limits beyond 8 persons by 8% of the 4-person limit per person
+const LARGE_HOUSEHOLD_INCREMENT = 0.08;
+
+@Injectable()
+export class IncomeLimitsService {
+  constructor(private prisma: PrismaService) {}
+
+  async getIncomeLimits(countyId: string, year?: number) {
+    const county = await this.prisma.county.findUnique({
+      where: { id: countyId },
+      select: { id: true, name: true, state: true, fipsCode: true },
+    });
+
+    if (!county) {
+      throw new NotFoundException('County not found');
+    }
+
+    const limitYear = year ?? (await this.getLatestYear(countyId));
+    const limits = limitYear
+      ? await this.prisma.incomeLimit.findMany({
+          where: { countyId, year: limitYear },
+          orderBy: { householdSize: 'asc' },
+        })
+      : [];
+
+    if (limits.length === 0) {
+      throw new NotFoundException('No income limits available for this county');
+    }
+
+    return {
+      county,
+      year: limitYear,
+      medianFamilyIncome: limits[0].medianFamilyIncome,
+      limits: limits.map((limit) => ({
+        householdSize: limit.householdSize,
+        extremelyLow: limit.extremelyLowLimit,
+        veryLow: limit.veryLowLimit,
+        low: limit.lowLimit,
+      })),
+    };
+  }
+
+  async checkEligibility(countyId: string, dto: IncomeEligibilityDto) {
+    const { county, year, medianFamilyIncome, limits } = await this.getIncomeLimits(
+      countyId,
+      dto.year,
+    );
+
+    const limit = this.limitForHouseholdSize(limits, dto.householdSize);
+    const category = this.categorize(dto.income, limit);
+
+    return {
+      county,
+      year,
+      householdSize: dto.householdSize,
+      income: dto.income,
+      medianFamilyIncome,
+      limits: limit,
+      category,
+      // The 50% limit is the household-size-adjusted half of AMI
+      percentOfAmi: (dto.income / (limit.veryLow * 2)) * 100,
+      eligible: category !== AmiCategory.ABOVE_LOW,
+    };
+  }
+
+  private limitForHouseholdSize(
+    limits: { householdSize: number; extremelyLow: number; veryLow: number; low: number }[],
+    householdSize: number,
+  ) {
+    const exact = limits.find((limit) => limit.householdSize === householdSize);
+    if (exact) {
+      return exact;
+    }
+
+    const largest = limits[limits.length - 1];
+    const fourPerson = limits.find((limit) => limit.householdSize === 4);
+
+    if (
+      householdSize < largest.householdSize ||
+      largest.householdSize < MAX_PUBLISHED_HOUSEHOLD_SIZE ||
+      !fourPerson
+    ) {
+      throw new NotFoundException(`No income limits for a household of ${householdSize}`);
+    }
+
+    const extra = (householdSize - largest.householdSize) * LARGE_HOUSEHOLD_INCREMENT;
+
+    return {
+      householdSize,
+      extremelyLow: Math.round(largest.extremelyLow + fourPerson.extremelyLow * extra),
+      veryLow: Math.round(largest.veryLow + fourPerson.veryLow * extra),
+      low: Math.round(largest.low + fourPerson.low * extra),
+    };
+  }
+
+  private categorize(
+    income: number,
+    limit: { extremelyLow: number; veryLow: number; low: number },
+  ): AmiCategory {
+    if (income <= limit.extremelyLow) return AmiCategory.EXTREMELY_LOW;
+    if (income <= limit.veryLow) return AmiCategory.VERY_LOW;
+    if (income <= limit.low) return AmiCategory.LOW;
+    return AmiCategory.ABOVE_LOW;
+  }
+
+  private async getLatestYear(countyId: string): Promise<number | undefined> {
+    const latest = await this.prisma.incomeLimit.findFirst({
+      where: { countyId },
+      orderBy: { year: 'desc' },
+      select: { year: true },
+    });
+
+    return latest?.year;
+  }
+}
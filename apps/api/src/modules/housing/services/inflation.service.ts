@@ -0,0 +1,146 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { FRED_SERIES, NATIONAL_GEOGRAPHY } from './fred-api.service';
+import { DollarMode } from '../dto/dollars-query.dto';
+import {
+  HOUSING_CHANGE_RULES,
+  RENT_CHANGE_RULES,
+  periodIndex,
+  roundTo,
+} from '../utils/series.utils';
+
+const PRICE_FIELDS = [
+  'medianHomePrice',
+  'averageHomePrice',
+  'pricePerSqft',
+  'studioRent',
+  'oneBedRent',
+  'twoBedRent',
+  'threeBedRent',
+  'fourBedRent',
+  'medianRent',
+  'averageRent',
+];
+
+// Changes of price fields; inventory and vacancy changes are not in dollars
+const PRICE_CHANGES = [...HOUSING_CHANGE_RULES, ...RENT_CHANGE_RULES]
+  .filter((rule) => PRICE_FIELDS.includes(rule.field))
+  .flatMap((rule) => [
+    { field: rule.yoy, months: 12 },
+    { field: rule.mom, months: 1 },
+  ]);
+
+const BASE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Converts nominal rows to dollars of a base month using CPI-U (CPIAUCSL).
+ * Prices are scaled by CPI(base) / CPI(period); percent changes become real
+ * changes over the same span. Periods without a CPI observation use the
+ * nearest month that has one.
+ */
+export class Deflator {
+  private readonly indexes: number[];
+
+  constructor(
+    private readonly cpi: Map<number, number>,
+    readonly base: string,
+    private readonly baseCpi: number,
+  ) {
+    this.indexes = Array.from(cpi.keys()).sort((a, b) => a - b);
+  }
+
+  describe() {
+    return { mode: DollarMode.REAL, base: this.base, cpiSeries: FRED_SERIES.CPI };
+  }
+
+  /** Deflates the price and change fields a row has, including nested source rows. */
+  deflate<T extends Record<string, any>>(row: T | null): T | null {
+    if (!row || typeof row.year !== 'number' || typeof row.month !== 'number') {
+      return row;
+    }
+
+    const index = periodIndex(row.year, row.month);
+    const current = this.cpiAt(index);
+    const deflated: Record<string, any> = { ...row };
+
+    for (const field of PRICE_FIELDS) {
+      if (typeof row[field] === 'number') {
+        deflated[field] = roundTo(row[field] * (this.baseCpi / current));
+      }
+    }
+
+    for (const { field, months } of PRICE_CHANGES) {
+      if (typeof row[field] === 'number') {
+        const inflation = current / this.cpiAt(index - months);
+        deflated[field] = roundTo(((1 + row[field] / 100) / inflation - 1) * 100);
+      }
+    }
+
+    if (Array.isArray(row.sources)) {
+      deflated.sources = row.sources.map((source: Record<string, any>) => this.deflate(source));
+    }
+
+    return deflated as T;
+  }
+
+  private cpiAt(index: number): number {
+    if (this.cpi.has(index)) {
+      return this.cpi.get(index);
+    }
+
+    const nearest = this.indexes.reduce((best, candidate) =>
+      Math.abs(candidate - index) < Math.abs(best - index) ? candidate : best);
+    return this.cpi.get(nearest);
+  }
+}
+
+@Injectable()
+export class InflationService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Returns a deflator for `dollars=real`, or null for nominal dollars.
+   * `base` (YYYY-MM) defaults to the latest CPI month.
+   */
+  async deflator(dollars?: string, base?: string): Promise<Deflator | null> {
+    if (!dollars || dollars === DollarMode.NOMINAL) {
+      return null;
+    }
+
+    if (dollars !== DollarMode.REAL) {
+      throw new BadRequestException(`dollars must be one of: ${Object.values(DollarMode).join(', ')}`);
+    }
+
+    if (base && !BASE_PATTERN.test(base)) {
+      throw new BadRequestException('base must be a month in YYYY-MM format');
+    }
+
+    const observations = await this.prisma.economicObservation.findMany({
+      where: { seriesId: FRED_SERIES.CPI, geography: NATIONAL_GEOGRAPHY },
+      select: { date: true, value: true },
+      orderBy: { date: 'asc' },
+    });
+
+    if (observations.length === 0) {
+      throw new BadRequestException('CPI series is not loaded; real dollars are unavailable');
+    }
+
+    const cpi = new Map(
+      observations.map(({ date, value }) => [
+        periodIndex(date.getUTCFullYear(), date.getUTCMonth() + 1),
+        value,
+      ]),
+    );
+
+    const latest = observations[observations.length - 1].date;
+    const baseMonth = base ?? `${latest.getUTCFullYear()}-${String(latest.getUTCMonth() + 1).padStart(2, '0')}`;
+    const [year, month] = baseMonth.split('-').map(Number);
+    const baseCpi = cpi.get(periodIndex(year, month));
+
+    if (baseCpi === undefined) {
+      throw new BadRequestException(`No CPI observation for base month ${baseMonth}`);
+    }
+
+    return new Deflator(cpi, baseMonth, baseCpi);
+  }
+}
@@ -0,0 +1,173 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { IngestionAction, IngestionTable, Prisma, SyncStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { ReconciliationService } from './reconciliation.service';
+import { VintageRow, VintageService } from './vintage.service';
+
+const MAX_REPORTED_SKIPS = 50;
+
+type LineageRow = VintageRow & { syncLogId: string | null };
+
+type LineageUpdate = Prisma.HousingDataUncheckedUpdateInput &
+  Prisma.RentDataUncheckedUpdateInput &
+  Prisma.MarketTrendUncheckedUpdateInput;
+
+// The operations rollback uses, which the three lineage tables support
+interface LineageDelegate {
+  findMany(args: {
+    where: { id: { in: string[] }; syncLogId: string };
+    select: { countyId: true };
+  }): Promise<{ countyId: string }[]>;
+  findUnique(args: { where: { id: string } }): Promise<LineageRow | null>;
+  delete(args: { where: { id: string } }): Promise<unknown>;
+  update(args: { where: { id: string }; data: LineageUpdate }): Promise<LineageRow>;
+}
+
+/**
+ * Lineage for sync batches: every HousingData, RentData and MarketTrend row
+ * written under a DataSyncLog carries its id, and IngestionChange keeps the
+ * values each write replaced.
+ */
+@Injectable()
+export class IngestionBatchService {
+  private readonly logger = new Logger(IngestionBatchService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private reconciliationService: ReconciliationService,
+    private vintageService: VintageService,
+  ) {}
+
+  async getBatch(syncLogId: string) {
+    const log = await this.findLog(syncLogId);
+    const changes = await this.prisma.ingestionChange.groupBy({
+      by: ['table', 'action'],
+      where: { syncLogId },
+      _count: { _all: true },
+    });
+
+    return {
+      ...log,
+      changes: changes.map((change) => ({
+        table: change.table,
+        action: change.action,
+        count: change._count._all,
+      })),
+    };
+  }
+
+  /**
+   * Undoes a batch newest-change-first: created rows are deleted and updated
+   * rows get their previous values back. Rows a later batch has since
+   * overwritten are left alone and reported as skipped. The undo, the
+   * rolledBackAt stamp and the re-reconciliation commit together.
+   */
+  async rollback(syncLogId: string, userId?: string) {
+    const log = await this.findLog(syncLogId);
+
+    if (log.rolledBackAt) {
+      throw new BadRequestException(`Batch ${syncLogId} was already rolled back`);
+    }
+
+    if (log.status === SyncStatus.PENDING || log.status === SyncStatus.IN_PROGRESS) {
+      throw new BadRequestException(`Batch ${syncLogId} is still running`);
+    }
+
+    const changes = await this.prisma.ingestionChange.findMany({
+      where: { syncLogId },
+      // cuids increase over time, breaking ties between same-millisecond writes
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+
+    const result = { deleted: 0, restored: 0, skipped: 0, skippedRecords: [] as string[] };
+    const countyIds = await this.affectedCounties(syncLogId, changes);
+
+    const { written: rolledBack } = await this.reconciliationService.reconcileAndRefresh({ countyIds }, async (tx) => {
+      for (const change of changes) {
+        const delegate = this.delegateFor(change.table, tx);
+        const current = await delegate.findUnique({ where: { id: change.recordId } });
+        const skip = (reason: string) => {
+          result.skipped++;
+          if (result.skippedRecords.length < MAX_REPORTED_SKIPS) {
+            result.skippedRecords.push(`${change.table} ${change.recordId}: ${reason}`);
+          }
+        };
+
+        if (!current) {
+          skip('no longer exists');
+          continue;
+        }
+
+        if (current.syncLogId !== syncLogId) {
+          skip(`overwritten by batch ${current.syncLogId ?? 'outside a sync'}`);
+          continue;
+        }
+
+        if (change.action === IngestionAction.CREATE) {
+          await delegate.delete({ where: { id: change.recordId } });
+          await this.vintageService.close(change.table, [change.recordId], tx);
+          result.deleted++;
+        } else {
+          const restored = await delegate.update({
+            where: { id: change.recordId },
+            data: change.previous as LineageUpdate,
+          });
+          // The restored values become a new vintage; history is never rewritten
+          await this.vintageService.record(change.table, restored, tx);
+          result.restored++;
+        }
+      }
+
+      return tx.dataSyncLog.update({
+        where: { id: syncLogId },
+        data: { rolledBackAt: new Date(), rolledBackBy: userId },
+      });
+    });
+
+    this.logger.warn(
+      `Rolled back batch ${syncLogId}: ${result.deleted} deleted, ` +
+        `${result.restored} restored, ${result.skipped} skipped`,
+    );
+
+    return { syncLog: rolledBack, ...result };
+  }
+
+  private async findLog(syncLogId: string) {
+    const log = await this.prisma.dataSyncLog.findUnique({ where: { id: syncLogId } });
+
+    if (!log) {
+      throw new NotFoundException('Sync batch not found');
+    }
+
+    return log;
+  }
+
+  // Counties of the rows the batch still owns, i.e. those rollback will touch
+  private async affectedCounties(syncLogId: string, changes: { table: IngestionTable; recordId: string }[]) {
+    const countyIds = new Set<string>();
+
+    for (const table of Object.values(IngestionTable)) {
+      const recordIds = changes.filter((change) => change.table === table).map((change) => change.recordId);
+      if (recordIds.length === 0) continue;
+
+      const rows = await this.delegateFor(table).findMany({
+        where: { id: { in: recordIds }, syncLogId },
+        select: { countyId: true },
+      });
+      rows.forEach((row) => countyIds.add(row.countyId));
+    }
+
+    return Array.from(countyIds);
+  }
+
+  private delegateFor(table: IngestionTable, client: Prisma.TransactionClient = this.prisma): LineageDelegate {
+    switch (table) {
+      case IngestionTable.HOUSING_DATA:
+        return client.housingData;
+      case IngestionTable.RENT_DATA:
+        return client.rentData;
+      case IngestionTable.MARKET_TREND:
+        return client.marketTrend;
+    }
+  }
+}
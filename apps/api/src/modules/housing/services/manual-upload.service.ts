@@ -0,0 +1,380 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { DataSource, SyncStatus } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import * as XLSX from 'xlsx';
+import { PrismaService } from '../../database/prisma.service';
+import { DataIngestionService } from './data-ingestion.service';
+import { ReconciliationService } from './reconciliation.service';
+import {
+  ManualDataType,
+  ManualHousingRowDto,
+  ManualRentRowDto,
+  ManualUploadQueryDto,
+} from '../dto/manual-upload.dto';
+import { emptySourceRecords } from '../interfaces/source-records.interface';
+
+export const MANUAL_UPLOAD_ADAPTER = 'MANUAL_UPLOAD';
+
+type ManualRow = ManualHousingRowDto | ManualRentRowDto;
+
+const KEY_COLUMNS = ['fipsCode', 'year', 'month', 'sourceUrl'];
+
+const COLUMNS: Record<ManualDataType, string[]> = {
+  [ManualDataType.HOUSING]: [
+    ...KEY_COLUMNS,
+    'medianHomePrice',
+    'averageHomePrice',
+    'pricePerSqft',
+    'inventoryCount',
+    'daysOnMarket',
+    'salesVolume',
+    'priceChangeYoY',
+    'inventoryChangeYoY',
+  ],
+  [ManualDataType.RENT]: [
+    ...KEY_COLUMNS,
+    'studioRent',
+    'oneBedRent',
+    'twoBedRent',
+    'threeBedRent',
+    'fourBedRent',
+    'medianRent',
+    'averageRent',
+    'vacancyRate',
+    'availableUnits',
+    'rentChangeYoY',
+    'vacancyChangeYoY',
+  ],
+};
+
+const ROW_DTOS: Record<ManualDataType, new () => ManualRow> = {
+  [ManualDataType.HOUSING]: ManualHousingRowDto,
+  [ManualDataType.RENT]: ManualRentRowDto,
+};
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+// Spreadsheet row 1 is the header, so data rows start at 2
+const FIRST_DATA_ROW = 2;
+
+export interface UploadRowError {
+  row: number;
+  fipsCode?: string;
+  field?: string;
+  messages: string[];
+}
+
+export interface UploadRowDiff {
+  row: number;
+  fipsCode: string;
+  year: number;
+  month: number;
+  action: 'create' | 'update' | 'unchanged';
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+@Injectable()
+export class ManualUploadService {
+  private readonly logger = new Logger(ManualUploadService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private dataIngestionService: DataIngestionService,
+    private reconciliationService: ReconciliationService,
+  ) {}
+
+  async upload(file: Express.Multer.File, query: ManualUploadQueryDto, userId?: string) {
+    if (!file) {
+      throw new BadRequestException('A CSV or XLSX file is required');
+    }
+
+    const extension = file.originalname.slice(file.originalname.lastIndexOf('.')).toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+      throw new BadRequestException(`Unsupported file type ${extension}; expected CSV or XLSX`);
+    }
+
+    const { rows: rawRows, ignoredColumns } = this.parseFile(file.buffer, extension, query.dataType);
+    const errors: UploadRowError[] = [];
+    const rows: { row: number; data: ManualRow; countyId?: string }[] = [];
+
+    rawRows.forEach((raw, index) => {
+      const row = index + FIRST_DATA_ROW;
+      const data = plainToInstance(ROW_DTOS[query.dataType], raw, {
+        enableImplicitConversion: true,
+      });
+
+      const validationErrors = validateSync(data);
+      if (validationErrors.length > 0) {
+        validationErrors.forEach((error) =>
+          errors.push({
+            row,
+            fipsCode: data.fipsCode,
+            field: error.property,
+            messages: Object.values(error.constraints ?? {}),
+          }),
+        );
+        return;
+      }
+
+      rows.push({ row, data });
+    });
+
+    await this.resolveCounties(rows, errors);
+    this.rejectDuplicates(rows, errors);
+
+    const validRows = rows.filter((row) => row.countyId);
+    const diff = await this.buildDiff(query.dataType, validRows);
+    errors.sort((a, b) => a.row - b.row);
+
+    const report = {
+      dryRun: query.dryRun,
+      dataType: query.dataType,
+      fileName: file.originalname,
+      summary: {
+        totalRows: rawRows.length,
+        validRows: validRows.length,
+        invalidRows: new Set(errors.map((error) => error.row)).size,
+        creates: diff.filter((entry) => entry.action === 'create').length,
+        updates: diff.filter((entry) => entry.action === 'update').length,
+        unchanged: diff.filter((entry) => entry.action === 'unchanged').length,
+      },
+      ignoredColumns,
+      errors,
+      diff,
+    };
+
+    if (query.dryRun) {
+      return report;
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Upload has invalid rows; fix them and re-run the dry run before committing',
+        ...report,
+      });
+    }
+
+    const { syncLog, reconciled } = await this.commit(query.dataType, validRows, {
+      fileName: file.originalname,
+      userId,
+    });
+
+    return { ...report, syncLog, reconciled };
+  }
+
+  private parseFile(buffer: Buffer, extension: string, dataType: ManualDataType) {
+    let workbook: XLSX.WorkBook;
+    try {
+      // Read CSV cells as text so FIPS codes keep their leading zeros
+      workbook = XLSX.read(buffer, { type: 'buffer', raw: extension === '.csv' });
+    } catch (error) {
+      throw new BadRequestException(`Unable to parse file: ${error.message}`);
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new BadRequestException('File contains no sheets');
+    }
+
+    const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null });
+    const columnsByKey = new Map(
+      COLUMNS[dataType].map((column) => [this.columnKey(column), column]),
+    );
+    columnsByKey.set('fips', 'fipsCode');
+
+    const headers = records.length > 0 ? Object.keys(records[0]) : [];
+    const ignoredColumns = headers.filter((header) => !columnsByKey.has(this.columnKey(header)));
+
+    const rows = records.map((record) => {
+      const row: Record<string, unknown> = {};
+
+      for (const [header, value] of Object.entries(record)) {
+        const column = columnsByKey.get(this.columnKey(header));
+        if (!column || value === null || (typeof value === 'string' && value.trim() === '')) {
+          continue;
+        }
+
+        row[column] = typeof value === 'string' ? value.trim() : value;
+      }
+
+      if (row.fipsCode !== undefined) {
+        row.fipsCode = String(row.fipsCode).padStart(5, '0');
+      }
+
+      return row;
+    });
+
+    return { rows, ignoredColumns };
+  }
+
+  private columnKey(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private async resolveCounties(
+    rows: { row: number; data: ManualRow; countyId?: string }[],
+    errors: UploadRowError[],
+  ) {
+    const counties = await this.prisma.county.findMany({
+      where: { fipsCode: { in: Array.from(new Set(rows.map((row) => row.data.fipsCode))) } },
+      select: { id: true, fipsCode: true },
+    });
+    const countyIds = new Map(counties.map((county) => [county.fipsCode, county.id]));
+
+    for (const row of rows) {
+      row.countyId = countyIds.get(row.data.fipsCode);
+      if (!row.countyId) {
+        errors.push({
+          row: row.row,
+          fipsCode: row.data.fipsCode,
+          field: 'fipsCode',
+          messages: [`Unknown county FIPS code ${row.data.fipsCode}`],
+        });
+      }
+    }
+  }
+
+  private rejectDuplicates(
+    rows: { row: number; data: ManualRow; countyId?: string }[],
+    errors: UploadRowError[],
+  ) {
+    const seen = new Map<string, number>();
+
+    for (const row of rows) {
+      if (!row.countyId) continue;
+
+      const key = `${row.data.fipsCode}-${row.data.year}-${row.data.month}`;
+      const firstRow = seen.get(key);
+
+      if (firstRow !== undefined) {
+        errors.push({
+          row: row.row,
+          fipsCode: row.data.fipsCode,
+          messages: [`Duplicate of row ${firstRow} for ${row.data.year}-${row.data.month}`],
+        });
+        row.countyId = undefined;
+      } else {
+        seen.set(key, row.row);
+      }
+    }
+  }
+
+  private async buildDiff(
+    dataType: ManualDataType,
+    rows: { row: number; data: ManualRow; countyId?: string }[],
+  ): Promise<UploadRowDiff[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const where = {
+      source: DataSource.MANUAL,
+      countyId: { in: Array.from(new Set(rows.map((row) => row.countyId))) },
+    };
+    const existing: Record<string, any>[] = dataType === ManualDataType.HOUSING
+      ? await this.prisma.housingData.findMany({ where })
+      : await this.prisma.rentData.findMany({ where });
+
+    const existingByKey = new Map(
+      existing.map((record) => [`${record.countyId}-${record.year}-${record.month}`, record]),
+    );
+    const valueColumns = COLUMNS[dataType].filter((column) => !KEY_COLUMNS.includes(column));
+
+    return rows.map(({ row, data, countyId }) => {
+      const entry: UploadRowDiff = {
+        row,
+        fipsCode: data.fipsCode,
+        year: data.year,
+        month: data.month,
+        action: 'create',
+      };
+
+      const current = existingByKey.get(`${countyId}-${data.year}-${data.month}`);
+      if (!current) {
+        return entry;
+      }
+
+      const changes: UploadRowDiff['changes'] = {};
+      for (const column of valueColumns) {
+        const incoming = data[column] ?? null;
+        if (incoming !== (current[column] ?? null)) {
+          changes[column] = { from: current[column] ?? null, to: incoming };
+        }
+      }
+
+      return Object.keys(changes).length > 0
+        ? { ...entry, action: 'update', changes }
+        : { ...entry, action: 'unchanged' };
+    });
+  }
+
+  // The rows and the reconciled rows built from them are written in one
+  // transaction, so a failure leaves none of the upload applied
+  private async commit(
+    dataType: ManualDataType,
+    rows: { data: ManualRow; countyId?: string }[],
+    metadata: { fileName: string; userId?: string },
+  ) {
+    const log = await this.prisma.dataSyncLog.create({
+      data: {
+        source: DataSource.MANUAL,
+        adapter: MANUAL_UPLOAD_ADAPTER,
+        status: SyncStatus.PENDING,
+        startedAt: new Date(),
+        metadata: { ...metadata, dataType, rows: rows.length },
+      },
+    });
+
+    try {
+      await this.prisma.dataSyncLog.update({
+        where: { id: log.id },
+        data: { status: SyncStatus.IN_PROGRESS },
+      });
+
+      const records = emptySourceRecords();
+      const withSource = rows.map(({ data: row }) => ({
+        ...row,
+        quarter: Math.ceil(row.month / 3),
+        source: DataSource.MANUAL,
+      }));
+
+      if (dataType === ManualDataType.HOUSING) {
+        records.housing = withSource as typeof records.housing;
+      } else {
+        records.rent = withSource as typeof records.rent;
+      }
+
+      const periods = rows.map(({ data, countyId }) => ({ countyId, year: data.year, month: data.month }));
+      const { written: result, reconciled } = await this.reconciliationService.reconcileAndRefresh(
+        { periods },
+        (tx) => this.dataIngestionService.persist(records, log.id, tx),
+      );
+
+      const syncLog = await this.prisma.dataSyncLog.update({
+        where: { id: log.id },
+        data: {
+          status: SyncStatus.COMPLETED,
+          recordsProcessed: result.processed,
+          recordsFailed: result.failed,
+          completedAt: new Date(),
+        },
+      });
+
+      return { syncLog, reconciled };
+    } catch (error) {
+      this.logger.error(`Manual upload ${metadata.fileName} failed: ${error.message}`, error.stack);
+
+      await this.prisma.dataSyncLog.update({
+        where: { id: log.id },
+        data: {
+          status: SyncStatus.FAILED,
+          completedAt: new Date(),
+          error: error.message,
+        },
+      });
+
+      throw error;
+    }
+  }
+}
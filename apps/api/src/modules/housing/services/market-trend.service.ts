@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { DataSource, IngestionTable } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { VintageService } from './vintage.service';
+
+export const COMPUTE_TRENDS_JOB = 'compute-trends';
+
+export interface ComputeTrendsJobData {
+  countyIds: string[];
+  timestamp: string;
+}
+
+// Rule-of-thumb thresholds: rent at most 30% of income, a home at most 3.5x
+// annual income. The affordability endpoint models mortgage payments instead;
+// these ratios stay comparable across counties and months.
+const RENT_BURDEN_THRESHOLD = 0.3;
+const PRICE_TO_INCOME_THRESHOLD = 3.5;
+
+/**
+ * Derives the affordability columns of MarketTrend from the reconciled
+ * HousingData and RentData rows and the county's ACS median household income.
+ *
+ * - rentToIncomeRatio: annual median rent / median income
+ * - priceToIncomeRatio: median home price / median income
+ * - affordabilityIndex: 0-100, the mean of a rent and a price score. Each score
+ *   is 100 at or under its threshold and falls in proportion above it, so a
+ *   county where homes cost 7x income scores 50 on price. Months with only
+ *   one of the two series use that score alone.
+ */
+@Injectable()
+export class MarketTrendService {
+  private readonly logger = new Logger(MarketTrendService.name);
+
+  constructor(
+    @InjectQueue('data-sync') private dataSyncQueue: Queue,
+    private prisma: PrismaService,
+    private vintageService: VintageService,
+  ) {}
+
+  async enqueue(countyIds: string[]) {
+    const jobData: ComputeTrendsJobData = { countyIds, timestamp: new Date().toISOString() };
+    return this.dataSyncQueue.add(COMPUTE_TRENDS_JOB, jobData, {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 30_000 },
+      removeOnComplete: 100,
+    });
+  }
+
+  /** Upserts the derived columns for every reconciled county-month. Defaults to all counties. */
+  async compute(countyIds?: string[]) {
+    const counties = await this.prisma.county.findMany({
+      where: countyIds ? { id: { in: countyIds } } : undefined,
+      select: { id: true, medianIncome: true },
+    });
+
+    const result = { counties: counties.length, periods: 0, skipped: 0 };
+
+    for (const county of counties) {
+      if (!county.medianIncome || county.medianIncome <= 0) {
+        result.skipped++;
+        continue;
+      }
+
+      const [housingRows, rentRows] = await Promise.all([
+        this.prisma.housingData.findMany({
+          where: { countyId: county.id, source: DataSource.CALCULATED },
+          select: { year: true, month: true, medianHomePrice: true },
+        }),
+        this.prisma.rentData.findMany({
+          where: { countyId: county.id, source: DataSource.CALCULATED },
+          select: { year: true, month: true, medianRent: true },
+        }),
+      ]);
+
+      const periods = new Map<string, { year: number; month: number; price?: number; rent?: number }>();
+      for (const row of housingRows) {
+        periods.set(`${row.year}-${row.month}`, { year: row.year, month: row.month, price: row.medianHomePrice });
+      }
+      for (const row of rentRows) {
+        const key = `${row.year}-${row.month}`;
+        periods.set(key, { year: row.year, month: row.month, ...periods.get(key), rent: row.medianRent });
+      }
+
+      for (const { year, month, price, rent } of periods.values()) {
+        const data = this.derive(county.medianIncome, price, rent);
+        const where = { countyId_year_month: { countyId: county.id, year, month } };
+
+        const trend = await this.prisma.marketTrend.upsert({
+          where,
+          create: { ...data, countyId: county.id, year, month },
+          update: data,
+        });
+        await this.vintageService.record(IngestionTable.MARKET_TREND, trend);
+        result.periods++;
+      }
+    }
+
+    this.logger.log(
+      `Computed market trends for ${result.periods} periods across ${result.counties} counties ` +
+        `(${result.skipped} without median income)`,
+    );
+
+    return result;
+  }
+
+  private derive(income: number, price?: number, rent?: number) {
+    const rentToIncomeRatio = rent ? (rent * 12) / income : null;
+    const priceToIncomeRatio = price ? price / income : null;
+
+    const scores = [
+      rentToIncomeRatio && this.score(rentToIncomeRatio, RENT_BURDEN_THRESHOLD),
+      priceToIncomeRatio && this.score(priceToIncomeRatio, PRICE_TO_INCOME_THRESHOLD),
+    ].filter((score): score is number => typeof score === 'number');
+
+    return {
+      rentToIncomeRatio,
+      priceToIncomeRatio,
+      affordabilityIndex: scores.length > 0
+        ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+        : null,
+    };
+  }
+
+  private score(ratio: number, threshold: number): number {
+    return Math.min(100, (100 * threshold) / ratio);
+  }
+}
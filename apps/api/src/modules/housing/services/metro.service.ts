@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MetroType } from '@prisma/client';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { PrismaService } from '../../database/prisma.service';
+
+interface DelineationMetro {
+  cbsaCode: string;
+  name: string;
+  type: MetroType;
+  csaCode: string | null;
+  csaName: string | null;
+  fipsCodes: string[];
+}
+
+const COLUMNS = {
+  cbsaCode: 'CBSA Code',
+  name: 'CBSA Title',
+  type: 'Metropolitan/Micropolitan Statistical Area',
+  csaCode: 'CSA Code',
+  csaName: 'CSA Title',
+  stateFips: 'FIPS State Code',
+  countyFips: 'FIPS County Code',
+};
+
+const REQUIRED_COLUMNS = ['cbsaCode', 'name', 'type', 'stateFips', 'countyFips'];
+// Around 1,900 CBSAs are upserted and linked in one transaction
+const IMPORT_TIMEOUT_MS = 10 * 60_000;
+
+@Injectable()
+export class MetroService {
+  private readonly logger = new Logger(MetroService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Loads the OMB county-to-CBSA delineation file (list1, XLSX or CSV) into
+   * Metro and links each County to its CBSA. Counties outside every CBSA are
+   * unlinked and metros missing from the file are removed. The import is one
+   * transaction, so a failure leaves the previous delineation in place.
+   */
+  async importDelineation(filePath: string, delineation?: string) {
+    const extension = path.extname(filePath).toLowerCase();
+    // Read CSV cells as text so FIPS codes keep their leading zeros
+    const workbook = XLSX.read(await fs.readFile(filePath), { type: 'buffer', raw: extension === '.csv' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null });
+
+    // The published file has title rows above the header and footnotes below the data
+    const headerIndex = rows.findIndex((row) => row.some((cell) => this.text(cell) === COLUMNS.cbsaCode));
+    if (headerIndex === -1) {
+      throw new Error(`${filePath} has no "${COLUMNS.cbsaCode}" header row`);
+    }
+
+    const header = rows[headerIndex].map((cell) => this.text(cell));
+    const index = Object.fromEntries(
+      Object.entries(COLUMNS).map(([key, column]) => [key, header.indexOf(column)]),
+    ) as Record<keyof typeof COLUMNS, number>;
+    const missing = REQUIRED_COLUMNS.filter((key) => index[key] === -1);
+    if (missing.length > 0) {
+      throw new Error(`${filePath} is missing columns: ${missing.map((key) => COLUMNS[key]).join(', ')}`);
+    }
+
+    const metros = new Map<string, DelineationMetro>();
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      const cbsaCode = this.text(row[index.cbsaCode]);
+      const stateFips = this.text(row[index.stateFips]);
+      const countyFips = this.text(row[index.countyFips]);
+      if (!/^\d+$/.test(cbsaCode) || !stateFips || !countyFips) continue;
+
+      const metro = metros.get(cbsaCode) ?? {
+        cbsaCode,
+        name: this.text(row[index.name]),
+        type: this.text(row[index.type]).startsWith('Micropolitan')
+          ? MetroType.MICROPOLITAN
+          : MetroType.METROPOLITAN,
+        csaCode: index.csaCode === -1 ? null : this.text(row[index.csaCode]) || null,
+        csaName: index.csaName === -1 ? null : this.text(row[index.csaName]) || null,
+        fipsCodes: [],
+      };
+      metro.fipsCodes.push(stateFips.padStart(2, '0') + countyFips.padStart(3, '0'));
+      metros.set(cbsaCode, metro);
+    }
+
+    const counties = await this.prisma.county.findMany({ select: { fipsCode: true } });
+    const known = new Set(counties.map((county) => county.fipsCode));
+    const result = { metros: metros.size, linked: 0, unlinked: 0, removed: 0, unmatched: [] as string[] };
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const { fipsCodes, ...metro } of metros.values()) {
+        const { id } = await tx.metro.upsert({
+          where: { cbsaCode: metro.cbsaCode },
+          create: { ...metro, delineation },
+          update: { ...metro, delineation },
+        });
+        const { count } = await tx.county.updateMany({
+          where: { fipsCode: { in: fipsCodes } },
+          data: { metroId: id },
+        });
+
+        result.linked += count;
+        result.unmatched.push(...fipsCodes.filter((fipsCode) => !known.has(fipsCode)));
+      }
+
+      const delineated = Array.from(metros.values()).flatMap((metro) => metro.fipsCodes);
+      result.unlinked = (await tx.county.updateMany({
+        where: { metroId: { not: null }, fipsCode: { notIn: delineated } },
+        data: { metroId: null },
+      })).count;
+      result.removed = (await tx.metro.deleteMany({
+        where: { cbsaCode: { notIn: Array.from(metros.keys()) } },
+      })).count;
+    }, { timeout: IMPORT_TIMEOUT_MS });
+
+    this.logger.log(
+      `Imported ${result.metros} CBSAs: ${result.linked} counties linked, ` +
+        `${result.unlinked} unlinked, ${result.removed} metros removed`,
+    );
+
+    return result;
+  }
+
+  private text(cell: unknown): string {
+    return cell === null || cell === undefined ? '' : String(cell).trim();
+  }
+}
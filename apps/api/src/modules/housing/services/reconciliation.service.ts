@@ -0,0 +1,343 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IngestionTable, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { VintageService } from './vintage.service';
+import { MarketTrendService } from './market-trend.service';
+import { ChangeBackfillService } from './change-backfill.service';
+import { AggregateService } from './aggregate.service';
+import { ForecastService } from './forecast.service';
+import { periodIndex } from '../utils/series.utils';
+
+export type ReconciliationStrategy = 'priority' | 'weighted';
+
+export interface SourceWeight {
+  source: DataSource;
+  weight: number;
+}
+
+export interface CountyPeriod {
+  countyId: string;
+  year: number;
+  month: number;
+}
+
+// Whole counties (all of them when countyIds is omitted) or single county-months
+export type ReconcileScope = { countyIds?: string[] } | { periods: CountyPeriod[] };
+
+export interface ReconcileResult {
+  counties: number;
+  housing: number;
+  rent: number;
+}
+
+// Writes applied together with their reconciliation, e.g. a large upload
+const TRANSACTION_TIMEOUT_MS = 10 * 60_000;
+
+interface SourceRow {
+  id: string;
+  year: number;
+  month: number;
+  quarter: number | null;
+  source: DataSource;
+  [field: string]: unknown;
+}
+
+// Levels only: the YoY and MoM changes of CALCULATED rows are computed from
+// the reconciled series by ChangeBackfillService and left untouched here
+const HOUSING_FIELDS = [
+  'medianHomePrice',
+  'averageHomePrice',
+  'pricePerSqft',
+  'inventoryCount',
+  'daysOnMarket',
+  'salesVolume',
+];
+
+const RENT_FIELDS = [
+  'studioRent',
+  'oneBedRent',
+  'twoBedRent',
+  'threeBedRent',
+  'fourBedRent',
+  'medianRent',
+  'averageRent',
+  'vacancyRate',
+  'availableUnits',
+];
+
+// Integer columns are rounded after weighting
+const INTEGER_FIELDS = ['inventoryCount', 'daysOnMarket', 'salesVolume', 'availableUnits'];
+
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private readonly strategy: ReconciliationStrategy;
+  private readonly sources: SourceWeight[];
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private vintageService: VintageService,
+    private marketTrendService: MarketTrendService,
+    private changeBackfillService: ChangeBackfillService,
+    private aggregateService: AggregateService,
+    private forecastService: ForecastService,
+  ) {
+    this.strategy = this.configService.get('reconciliation.strategy') === 'priority'
+      ? 'priority'
+      : 'weighted';
+    this.sources = this.parseSources(this.configService.get('reconciliation.sources') ?? '');
+  }
+
+  /**
+   * Reconciles the scope, then queues everything computed from the reconciled
+   * rows: market trend ratios, YoY and MoM changes, state, metro and national
+   * aggregates, and forecasts. Every path that changes source rows goes
+   * through here. A `write` runs in one transaction with the reconciliation,
+   * and the jobs are queued only once it has committed.
+   */
+  async reconcileAndRefresh<T = undefined>(
+    scope: ReconcileScope,
+    write?: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<{ written: T; reconciled: ReconcileResult }> {
+    const countyIds = 'periods' in scope
+      ? Array.from(new Set(scope.periods.map((period) => period.countyId)))
+      : scope.countyIds ?? (
+        await this.prisma.county.findMany({ select: { id: true } })
+      ).map((county) => county.id);
+    const reconcile = (client: Prisma.TransactionClient) => 'periods' in scope
+      ? this.reconcilePeriods(scope.periods, client)
+      : this.reconcile(countyIds, client);
+
+    const { written, reconciled } = write
+      ? await this.prisma.$transaction(
+        async (tx) => ({ written: await write(tx), reconciled: await reconcile(tx) }),
+        { timeout: TRANSACTION_TIMEOUT_MS },
+      )
+      : { written: undefined as T, reconciled: await reconcile(this.prisma) };
+
+    if (countyIds.length > 0) {
+      await this.marketTrendService.enqueue(countyIds);
+      await this.changeBackfillService.enqueue(countyIds);
+      await this.aggregateService.enqueue();
+      await this.forecastService.enqueue(countyIds);
+    }
+
+    return { written, reconciled };
+  }
+
+  /**
+   * Rebuilds the canonical CALCULATED HousingData and RentData rows for every
+   * county-month that has at least one source row, and drops CALCULATED rows
+   * whose sources are gone (e.g. after a batch rollback). Defaults to all
+   * counties. Pass a transaction client to reconcile together with the writes
+   * that made it necessary.
+   */
+  async reconcile(
+    countyIds?: string[],
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<ReconcileResult> {
+    const ids = countyIds ?? (
+      await client.county.findMany({ select: { id: true } })
+    ).map((county) => county.id);
+
+    const result = { counties: ids.length, housing: 0, rent: 0 };
+
+    for (const countyId of ids) {
+      await this.reconcileCounty(countyId, undefined, client, result);
+    }
+
+    this.logger.log(
+      `Reconciled ${result.housing} housing and ${result.rent} rent periods ` +
+        `across ${result.counties} counties (${this.strategy})`,
+    );
+
+    return result;
+  }
+
+  /** Like reconcile, limited to the given county-months. */
+  async reconcilePeriods(
+    periods: CountyPeriod[],
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<ReconcileResult> {
+    const byCounty = new Map<string, Map<number, { year: number; month: number }>>();
+    for (const { countyId, year, month } of periods) {
+      const months = byCounty.get(countyId) ?? new Map();
+      byCounty.set(countyId, months.set(periodIndex(year, month), { year, month }));
+    }
+
+    const result = { counties: byCounty.size, housing: 0, rent: 0 };
+
+    for (const [countyId, months] of byCounty) {
+      await this.reconcileCounty(countyId, Array.from(months.values()), client, result);
+    }
+
+    this.logger.log(
+      `Reconciled ${result.housing} housing and ${result.rent} rent periods ` +
+        `across ${result.counties} counties (${this.strategy})`,
+    );
+
+    return result;
+  }
+
+  private async reconcileCounty(
+    countyId: string,
+    months: { year: number; month: number }[] | undefined,
+    client: Prisma.TransactionClient,
+    result: { housing: number; rent: number },
+  ) {
+    const scope = { countyId, ...(months && { OR: months }) };
+    const [housingRows, rentRows] = await Promise.all([
+      client.housingData.findMany({
+        where: { ...scope, source: { not: DataSource.CALCULATED } },
+      }),
+      client.rentData.findMany({
+        where: { ...scope, source: { not: DataSource.CALCULATED } },
+      }),
+    ]);
+
+    for (const rows of this.groupByPeriod(housingRows)) {
+      const { year, month, quarter } = rows[0];
+      const { values, reconciliation } = this.combine(rows, HOUSING_FIELDS);
+      const key = { countyId, year, month, source: DataSource.CALCULATED };
+      const data: Prisma.HousingDataUncheckedCreateInput = {
+        ...values,
+        ...key,
+        // Required on every source row, so always combined
+        medianHomePrice: values.medianHomePrice as number,
+        quarter,
+        reconciliation,
+      };
+
+      const row = await client.housingData.upsert({
+        where: { countyId_year_month_source: key },
+        create: data,
+        update: data,
+      });
+      await this.vintageService.record(IngestionTable.HOUSING_DATA, row, client);
+      result.housing++;
+    }
+
+    for (const rows of this.groupByPeriod(rentRows)) {
+      const { year, month, quarter } = rows[0];
+      const { values, reconciliation } = this.combine(rows, RENT_FIELDS);
+      const key = { countyId, year, month, source: DataSource.CALCULATED };
+      const data: Prisma.RentDataUncheckedCreateInput = {
+        ...values,
+        ...key,
+        medianRent: values.medianRent as number,
+        quarter,
+        reconciliation,
+      };
+
+      const row = await client.rentData.upsert({
+        where: { countyId_year_month_source: key },
+        create: data,
+        update: data,
+      });
+      await this.vintageService.record(IngestionTable.RENT_DATA, row, client);
+      result.rent++;
+    }
+
+    const stale = (rows: SourceRow[]) => ({
+      ...scope,
+      source: DataSource.CALCULATED,
+      NOT: rows.map(({ year, month }) => ({ year, month })),
+    });
+    const [staleHousing, staleRent] = await Promise.all([
+      client.housingData.findMany({ where: stale(housingRows), select: { id: true } }),
+      client.rentData.findMany({ where: stale(rentRows), select: { id: true } }),
+    ]);
+    const ids = (rows: { id: string }[]) => rows.map((row) => row.id);
+
+    await client.housingData.deleteMany({ where: { id: { in: ids(staleHousing) } } });
+    await client.rentData.deleteMany({ where: { id: { in: ids(staleRent) } } });
+    await this.vintageService.close(IngestionTable.HOUSING_DATA, ids(staleHousing), client);
+    await this.vintageService.close(IngestionTable.RENT_DATA, ids(staleRent), client);
+  }
+
+  /**
+   * Picks the row a reader should see for one county-month: the CALCULATED row
+   * when it exists, otherwise the highest-priority source.
+   */
+  preferCanonical<T extends { source: DataSource }>(rows: T[]): T | null {
+    const calculated = rows.find((row) => row.source === DataSource.CALCULATED);
+    if (calculated) {
+      return calculated;
+    }
+
+    return [...rows].sort((a, b) => this.rank(a.source) - this.rank(b.source))[0] ?? null;
+  }
+
+  private combine(rows: SourceRow[], fields: string[]) {
+    const ranked = [...rows].sort((a, b) => this.rank(a.source) - this.rank(b.source));
+    const values: Record<string, number | null> = {};
+
+    for (const field of fields) {
+      const candidates = ranked.filter((row) => typeof row[field] === 'number');
+      values[field] = candidates.length > 0 ? this.combineField(field, candidates) : null;
+    }
+
+    return {
+      values,
+      reconciliation: {
+        strategy: this.strategy,
+        sources: ranked.map((row) => ({
+          source: row.source,
+          id: row.id,
+          weight: this.weight(row.source),
+        })),
+      },
+    };
+  }
+
+  private combineField(field: string, candidates: SourceRow[]): number {
+    const weighted = candidates.filter((row) => this.weight(row.source) > 0);
+
+    // Fall back to priority when no contributing source carries any weight
+    if (this.strategy === 'priority' || weighted.length === 0) {
+      return candidates[0][field] as number;
+    }
+
+    const totalWeight = weighted.reduce((sum, row) => sum + this.weight(row.source), 0);
+    const value = weighted.reduce(
+      (sum, row) => sum + (row[field] as number) * this.weight(row.source),
+      0,
+    ) / totalWeight;
+
+    return INTEGER_FIELDS.includes(field) ? Math.round(value) : value;
+  }
+
+  private groupByPeriod(rows: SourceRow[]): SourceRow[][] {
+    const groups = new Map<string, SourceRow[]>();
+
+    for (const row of rows) {
+      const key = `${row.year}-${row.month}`;
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  // Sources missing from the configuration rank last with a weight of 1
+  private rank(source: DataSource): number {
+    const index = this.sources.findIndex((entry) => entry.source === source);
+    return index === -1 ? this.sources.length : index;
+  }
+
+  private weight(source: DataSource): number {
+    return this.sources.find((entry) => entry.source === source)?.weight ?? 1;
+  }
+
+  private parseSources(value: string): SourceWeight[] {
+    return value
+      .split(',')
+      .map((entry) => entry.trim().split(':'))
+      .filter(([source]) => source in DataSource && source !== DataSource.CALCULATED)
+      .map(([source, weight]) => ({
+        source: source as DataSource,
+        weight: weight === undefined ? 1 : Number(weight),
+      }));
+  }
+}
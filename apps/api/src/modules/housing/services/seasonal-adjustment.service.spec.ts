@@ -0,0 +1,75 @@
+import { PrismaService } from '../../database/prisma.service';
+import { SeasonalAdjustmentService } from './seasonal-adjustment.service';
+import { VintageService } from './vintage.service';
+
+/** Monthly rows from January 2020: a rising series with a ±5 yearly cycle. */
+function monthlyRows(months: number) {
+  return Array.from({ length: months }, (_, t) => ({
+    year: 2020 + Math.floor(t / 12),
+    month: (t % 12) + 1,
+    value: 200 + t + 5 * Math.sin((2 * Math.PI * t) / 12),
+  }));
+}
+
+describe('SeasonalAdjustmentService.decompose', () => {
+  // decompose only works on the rows it is given
+  const service = new SeasonalAdjustmentService({} as PrismaService, {} as VintageService);
+
+  it('needs two years between the first and last observed month', () => {
+    expect(service.decompose([])).toBeNull();
+    expect(service.decompose(monthlyRows(23))).toBeNull();
+    expect(service.decompose(monthlyRows(24).map((row) => ({ ...row, value: null })))).toBeNull();
+  });
+
+  it('returns one point per month with components that add back up', () => {
+    const rows = monthlyRows(36);
+    const decomposition = service.decompose(rows);
+
+    expect(decomposition.interpolated).toBe(0);
+    expect(decomposition.points).toHaveLength(36);
+    expect(decomposition.points[0]).toMatchObject({ year: 2020, month: 1 });
+    expect(decomposition.points[35]).toMatchObject({ year: 2022, month: 12 });
+
+    decomposition.points.forEach((point, i) => {
+      expect(point.value).toBe(rows[i].value);
+      expect(point.trend + point.seasonal + point.residual).toBeCloseTo(point.value, 1);
+      expect(point.seasonallyAdjusted).toBeCloseTo(point.value - point.seasonal, 1);
+    });
+  });
+
+  it('interpolates missing months and reports them without a value', () => {
+    const all = monthlyRows(36);
+    const rows = all.filter((row) => !(row.year === 2021 && row.month >= 4 && row.month <= 6));
+    const decomposition = service.decompose(rows);
+    const april = decomposition.points.find((point) => point.year === 2021 && point.month === 4);
+    // A quarter of the way from March (t = 14) to July (t = 18)
+    const filled = all[14].value + (all[18].value - all[14].value) / 4;
+
+    expect(decomposition.interpolated).toBe(3);
+    expect(decomposition.points).toHaveLength(36);
+    expect(april.value).toBeNull();
+    expect(april.trend + april.seasonal + april.residual).toBeCloseTo(filled, 1);
+  });
+
+  it('starts and ends at the first and last observed months', () => {
+    const rows = [
+      { year: 2019, month: 12, value: null },
+      ...monthlyRows(30),
+      { year: 2022, month: 7, value: undefined },
+    ];
+    const { points } = service.decompose(rows);
+
+    expect(points).toHaveLength(30);
+    expect(points[0]).toMatchObject({ year: 2020, month: 1 });
+    expect(points[29]).toMatchObject({ year: 2022, month: 6 });
+  });
+
+  it('removes the yearly cycle from the seasonally adjusted series', () => {
+    const { points, seasonalStrength } = service.decompose(monthlyRows(48));
+
+    expect(seasonalStrength).toBeGreaterThan(0.9);
+    points.forEach((point, t) => {
+      expect(Math.abs(point.seasonallyAdjusted - (200 + t))).toBeLessThan(1);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, IngestionTable } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { VintageService } from './vintage.service';
+import { Decomposition, seasonalStrength, stl } from '../utils/decomposition.utils';
+import {
+  HOUSING_SERIES_FIELDS,
+  RENT_SERIES_FIELDS,
+  ResampleFields,
+  periodIndex,
+  periodOf,
+  roundTo,
+  seriesChanges,
+} from '../utils/series.utils';
+
+const SEASON_LENGTH = 12;
+
+export const SEASONAL_TABLES: Partial<Record<IngestionTable, ResampleFields>> = {
+  [IngestionTable.HOUSING_DATA]: HOUSING_SERIES_FIELDS,
+  [IngestionTable.RENT_DATA]: RENT_SERIES_FIELDS,
+};
+
+export interface DecomposedPoint {
+  year: number;
+  month: number;
+  // Null for months filled by interpolation
+  value: number | null;
+  trend: number;
+  seasonal: number;
+  residual: number;
+  seasonallyAdjusted: number;
+}
+
+export interface SeriesDecomposition {
+  points: DecomposedPoint[];
+  seasonalStrength: number;
+  interpolated: number;
+}
+
+export interface SeriesRow {
+  countyId: string;
+  source?: DataSource | string;
+  year: number;
+  month: number;
+  [field: string]: unknown;
+}
+
+/**
+ * Replaces the levels of housing or rent rows by their seasonally adjusted
+ * values and recomputes the YoY and MoM changes from them. Rows of series
+ * too short to decompose are returned as they are.
+ */
+export class SeasonalAdjuster {
+  constructor(
+    // Adjusted fields by series (county and source) and period
+    private readonly series: Map<string, Map<number, Record<string, number | null>>>,
+    private readonly fields: ResampleFields,
+  ) {}
+
+  static key(row: { countyId: string; source?: string }) {
+    return `${row.countyId}:${row.source ?? DataSource.CALCULATED}`;
+  }
+
+  /** Adjusts the row, including nested source rows. */
+  adjust<T extends SeriesRow>(row: T): T {
+    const adjusted: SeriesRow = { ...row };
+    const points = this.series.get(SeasonalAdjuster.key(row));
+
+    if (points) {
+      const index = periodIndex(row.year, row.month);
+      const point = points.get(index);
+
+      for (const field of [...this.fields.mean, ...this.fields.sum]) {
+        if (typeof point?.[field] === 'number') {
+          adjusted[field] = point[field];
+        }
+      }
+
+      if (point) {
+        Object.assign(
+          adjusted,
+          seriesChanges(point, points.get(index - 1), points.get(index - SEASON_LENGTH), this.fields.changes),
+        );
+      }
+    }
+
+    if (Array.isArray(row.sources)) {
+      adjusted.sources = row.sources.map((source: SeriesRow) => this.adjust(source));
+    }
+
+    return adjusted as T;
+  }
+}
+
+/**
+ * Seasonal decomposition of county monthly series with STL. Months missing
+ * inside a series are filled by linear interpolation before the
+ * decomposition; a series needs two years between its first and last month.
+ */
+@Injectable()
+export class SeasonalAdjustmentService {
+  constructor(
+    private prisma: PrismaService,
+    private vintageService: VintageService,
+  ) {}
+
+  /** Decomposes one field of a series ordered by period, or null when it is too short. */
+  decompose(rows: { year: number; month: number; value: number | null | undefined }[]): SeriesDecomposition | null {
+    const observed = rows.filter((row) => typeof row.value === 'number');
+    if (observed.length === 0) {
+      return null;
+    }
+
+    const start = periodIndex(observed[0].year, observed[0].month);
+    const end = periodIndex(observed[observed.length - 1].year, observed[observed.length - 1].month);
+    if (end - start + 1 < SEASON_LENGTH * 2) {
+      return null;
+    }
+
+    const known = new Map(observed.map((row) => [periodIndex(row.year, row.month), row.value as number]));
+    const filled: number[] = [];
+    let previous = start;
+
+    for (let index = start; index <= end; index++) {
+      if (known.has(index)) {
+        filled.push(known.get(index));
+        previous = index;
+        continue;
+      }
+
+      let next = index + 1;
+      while (!known.has(next)) next++;
+      const share = (index - previous) / (next - previous);
+      filled.push(known.get(previous) + (known.get(next) - known.get(previous)) * share);
+    }
+
+    const decomposition: Decomposition = stl(filled, { period: SEASON_LENGTH });
+
+    return {
+      points: filled.map((value, i) => ({
+        ...periodOf(start + i),
+        value: known.has(start + i) ? value : null,
+        trend: roundTo(decomposition.trend[i]),
+        seasonal: roundTo(decomposition.seasonal[i]),
+        residual: roundTo(decomposition.residual[i]),
+        seasonallyAdjusted: roundTo(value - decomposition.seasonal[i]),
+      })),
+      seasonalStrength: roundTo(seasonalStrength(decomposition)),
+      interpolated: end - start + 1 - observed.length,
+    };
+  }
+
+  /**
+   * Builds an adjuster for rows of HousingData or RentData by decomposing the
+   * complete series (every month, not just the rows given) of each county
+   * and source the rows belong to. With `asOf`, the series are read as they
+   * were known at that date.
+   */
+  async adjuster(table: IngestionTable, rows: SeriesRow[], asOf?: Date): Promise<SeasonalAdjuster> {
+    const fields = SEASONAL_TABLES[table];
+    const keys = new Map<string, { countyId: string; source: DataSource }>();
+
+    for (const row of rows.flatMap((row) => [row, ...((row.sources as SeriesRow[]) ?? [])])) {
+      const source = (row.source ?? DataSource.CALCULATED) as DataSource;
+      keys.set(SeasonalAdjuster.key({ countyId: row.countyId, source }), { countyId: row.countyId, source });
+    }
+
+    const series = new Map<string, Map<number, Record<string, number | null>>>();
+    if (keys.size === 0) {
+      return new SeasonalAdjuster(series, fields);
+    }
+
+    const where = { OR: Array.from(keys.values()) };
+    const stored: SeriesRow[] = asOf
+      ? (await this.prisma.dataVintage.findMany({
+        where: { AND: [this.vintageService.asOfWhere(table, asOf), where] },
+      })).map((vintage) => this.vintageService.toRow(vintage) as SeriesRow)
+      : table === IngestionTable.HOUSING_DATA
+        ? await this.prisma.housingData.findMany({ where })
+        : await this.prisma.rentData.findMany({ where });
+
+    const grouped = new Map<string, SeriesRow[]>();
+    for (const row of stored) {
+      const key = SeasonalAdjuster.key(row);
+      grouped.set(key, [...(grouped.get(key) ?? []), row]);
+    }
+
+    for (const [key, seriesRows] of grouped) {
+      seriesRows.sort((a, b) => periodIndex(a.year, a.month) - periodIndex(b.year, b.month));
+      const points = new Map<number, Record<string, number | null>>();
+
+      for (const field of [...fields.mean, ...fields.sum]) {
+        const decomposition = this.decompose(
+          seriesRows.map((row) => ({ year: row.year, month: row.month, value: row[field] as number | null })),
+        );
+
+        for (const point of decomposition?.points ?? []) {
+          if (point.value === null) continue;
+          const index = periodIndex(point.year, point.month);
+          points.set(index, { ...points.get(index), [field]: point.seasonallyAdjusted });
+        }
+      }
+
+      series.set(key, points);
+    }
+
+    return new SeasonalAdjuster(series, fields);
+  }
+}
@@ -0,0 +1,243 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { DataSourceRegistry } from '../adapters/data-source.registry';
+import { DataSyncService } from './data-sync.service';
+import { UpdateSyncScheduleDto } from '../dto/update-sync-schedule.dto';
+
+export const SCHEDULED_SYNC_JOB = 'scheduled-sync';
+
+export interface ScheduledSyncJobData {
+  source: string;
+}
+
+const REGISTRATION_LOCK = 'data-sync:schedules:register';
+const REGISTRATION_LOCK_TTL_MS = 30_000;
+const REGISTRATION_LOCK_ATTEMPTS = 10;
+
+// Keyed by source and tick time, and held for the whole window rather than
+// released after queueing, so that a duplicate of the same tick picked up by
+// another instance moments later is dropped while the next tick still runs.
+const RUN_LOCK_TTL_MS = 5 * 60_000;
+
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+  end
+  return 0
+`;
+
+@Injectable()
+export class SyncScheduleService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SyncScheduleService.name);
+
+  constructor(
+    @InjectQueue('data-sync') private dataSyncQueue: Queue,
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private dataSourceRegistry: DataSourceRegistry,
+    private dataSyncService: DataSyncService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    if (!this.schedulerEnabled) {
+      this.logger.log('In-process sync scheduler is disabled');
+      return;
+    }
+
+    try {
+      await this.seedDefaults();
+      await this.registerAll();
+    } catch (error) {
+      this.logger.error(`Unable to register sync schedules: ${error.message}`, error.stack);
+    }
+  }
+
+  async list() {
+    const [schedules, repeatableJobs] = await Promise.all([
+      this.prisma.syncSchedule.findMany({ orderBy: { source: 'asc' } }),
+      this.dataSyncQueue.getRepeatableJobs(),
+    ]);
+
+    return schedules.map((schedule) => {
+      const repeatable = repeatableJobs.find((job) => job.id === this.jobIdFor(schedule.source));
+
+      return {
+        ...schedule,
+        nextRunAt: schedule.enabled && repeatable ? new Date(repeatable.next) : null,
+      };
+    });
+  }
+
+  async update(source: string, dto: UpdateSyncScheduleDto, userId?: string) {
+    const schedule = await this.findSchedule(source);
+
+    const updated = await this.prisma.syncSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        cron: dto.cron?.trim(),
+        timezone: dto.timezone,
+        enabled: dto.enabled,
+        updatedBy: userId,
+      },
+    });
+
+    try {
+      await this.registerAll(true);
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+
+      // Bull rejects cron expressions it cannot parse; restore the old schedule
+      await this.prisma.syncSchedule.update({
+        where: { id: schedule.id },
+        data: { cron: schedule.cron, timezone: schedule.timezone, enabled: schedule.enabled },
+      });
+      await this.registerAll(true);
+      throw new BadRequestException(`Invalid schedule: ${error.message}`);
+    }
+
+    return updated;
+  }
+
+  pause(source: string, userId?: string) {
+    return this.update(source, { enabled: false }, userId);
+  }
+
+  resume(source: string, userId?: string) {
+    return this.update(source, { enabled: true }, userId);
+  }
+
+  /**
+   * Handles one tick of a repeatable schedule by queueing a regular sync job.
+   * `scheduledAt` is the tick's due time in epoch milliseconds.
+   */
+  async runScheduled(source: string, scheduledAt: number) {
+    if (!this.schedulerEnabled) {
+      return { skipped: true, reason: 'scheduler disabled' };
+    }
+
+    const token = await this.acquireLock(`data-sync:schedules:run:${source}:${scheduledAt}`, RUN_LOCK_TTL_MS);
+    if (!token) {
+      this.logger.log(`Skipping scheduled ${source} sync; another instance already ran it`);
+      return { skipped: true, reason: 'already running' };
+    }
+
+    // The repeatable job may outlive a pause made on another instance
+    const schedule = await this.prisma.syncSchedule.findUnique({ where: { source } });
+    if (!schedule?.enabled) {
+      return { skipped: true, reason: 'paused' };
+    }
+
+    const queued = await this.dataSyncService.triggerSync(source);
+    await this.prisma.syncSchedule.update({
+      where: { id: schedule.id },
+      data: { lastRunAt: new Date(), lastJobId: String(queued.jobId) },
+    });
+
+    return queued;
+  }
+
+  // Adapters declare their release cadence; it becomes the initial schedule
+  private async seedDefaults() {
+    const { count } = await this.prisma.syncSchedule.createMany({
+      data: this.dataSourceRegistry.list().map((adapter) => ({
+        source: adapter.name,
+        cron: adapter.cadence,
+      })),
+      skipDuplicates: true,
+    });
+
+    if (count > 0) {
+      this.logger.log(`Created ${count} default sync schedules`);
+    }
+  }
+
+  /**
+   * Replaces the repeatable jobs on the queue with the enabled schedules.
+   * Runs under a Redis lock so concurrent instances do not interleave
+   * removals and additions.
+   */
+  private async registerAll(waitForLock = false) {
+    const attempts = waitForLock ? REGISTRATION_LOCK_ATTEMPTS : 1;
+    let token: string | null = null;
+
+    for (let attempt = 0; attempt < attempts && !token; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      token = await this.acquireLock(REGISTRATION_LOCK, REGISTRATION_LOCK_TTL_MS);
+    }
+
+    if (!token) {
+      if (waitForLock) {
+        throw new ServiceUnavailableException('Sync schedules are being updated; try again shortly');
+      }
+      this.logger.log('Another instance is registering sync schedules');
+      return;
+    }
+
+    try {
+      const repeatableJobs = await this.dataSyncQueue.getRepeatableJobs();
+      for (const job of repeatableJobs.filter((entry) => entry.name === SCHEDULED_SYNC_JOB)) {
+        await this.dataSyncQueue.removeRepeatableByKey(job.key);
+      }
+
+      const schedules = await this.prisma.syncSchedule.findMany({ where: { enabled: true } });
+      for (const schedule of schedules) {
+        const data: ScheduledSyncJobData = { source: schedule.source };
+
+        await this.dataSyncQueue.add(SCHEDULED_SYNC_JOB, data, {
+          jobId: this.jobIdFor(schedule.source),
+          repeat: { cron: schedule.cron, tz: schedule.timezone },
+          removeOnComplete: true,
+        });
+      }
+
+      this.logger.log(`Registered ${schedules.length} sync schedules`);
+    } finally {
+      await this.releaseLock(REGISTRATION_LOCK, token);
+    }
+  }
+
+  private async findSchedule(source: string) {
+    const name = this.dataSourceRegistry.has(source)
+      ? this.dataSourceRegistry.get(source).name
+      : source;
+    const schedule = await this.prisma.syncSchedule.findUnique({ where: { source: name } });
+
+    if (!schedule) {
+      throw new NotFoundException(`No sync schedule for source "${source}"`);
+    }
+
+    return schedule;
+  }
+
+  private jobIdFor(source: string): string {
+    return `schedule:${source}`;
+  }
+
+  private get schedulerEnabled(): boolean {
+    return this.configService.get('sync.schedulerEnabled') !== false;
+  }
+
+  private async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const acquired = await this.dataSyncQueue.client.set(key, token, 'PX', ttlMs, 'NX');
+    return acquired === 'OK' ? token : null;
+  }
+
+  private async releaseLock(key: string, token: string) {
+    await this.dataSyncQueue.client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+  }
+}
@@ -0,0 +1,234 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource, DataVintage, IngestionTable, Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+export interface VintageRow {
+  id: string;
+  countyId: string;
+  year: number;
+  month: number;
+  source?: DataSource;
+  syncLogId?: string | null;
+}
+
+export interface RevisionFilters {
+  table?: IngestionTable;
+  source?: DataSource;
+  year?: number;
+  month?: number;
+  since?: Date;
+  limit: number;
+}
+
+const SEED_BATCH_SIZE = 1000;
+
+// Identity and bookkeeping columns are stored on the vintage itself, not in values
+const NON_VALUE_COLUMNS = [
+  'id',
+  'countyId',
+  'year',
+  'month',
+  'source',
+  'syncLogId',
+  'reconciliation',
+  'createdAt',
+  'updatedAt',
+];
+
+@Injectable()
+export class VintageService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Opens a new vintage for a row that was just written, closing the previous
+   * one. Writes that leave every value unchanged do not create a vintage.
+   */
+  async record(table: IngestionTable, row: VintageRow, client: Prisma.TransactionClient = this.prisma) {
+    const values = this.valuesOf(row);
+    const current = await client.dataVintage.findFirst({
+      where: { table, recordId: row.id, validTo: null },
+      orderBy: { validFrom: 'desc' },
+    });
+
+    if (current && this.sameValues(current.values as Record<string, unknown>, values)) {
+      return current;
+    }
+
+    const now = new Date();
+    if (current) {
+      await client.dataVintage.update({ where: { id: current.id }, data: { validTo: now } });
+    }
+
+    return client.dataVintage.create({
+      data: { ...this.vintageData(table, row, now), previousId: current?.id ?? null },
+    });
+  }
+
+  /**
+   * Opens a first vintage for every row of the table that has none, i.e. rows
+   * stored before vintages were introduced. Their earlier values are unknown,
+   * so the vintage is valid from the row's last update. Run once when
+   * deploying vintages (`seed:vintages`); rows that already have one are
+   * skipped.
+   */
+  async seedInitial(table: IngestionTable): Promise<number> {
+    let created = 0;
+    let rows: (VintageRow & { updatedAt: Date })[];
+    let cursor: string | undefined;
+
+    do {
+      const page = {
+        take: SEED_BATCH_SIZE,
+        orderBy: { id: 'asc' as const },
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      };
+      rows = table === IngestionTable.HOUSING_DATA
+        ? await this.prisma.housingData.findMany(page)
+        : table === IngestionTable.RENT_DATA
+          ? await this.prisma.rentData.findMany(page)
+          : await this.prisma.marketTrend.findMany(page);
+      if (rows.length === 0) break;
+      cursor = rows[rows.length - 1].id;
+
+      const versioned = await this.prisma.dataVintage.findMany({
+        where: { table, recordId: { in: rows.map((row) => row.id) } },
+        select: { recordId: true },
+        distinct: ['recordId'],
+      });
+      const versionedIds = new Set(versioned.map((vintage) => vintage.recordId));
+
+      const { count } = await this.prisma.dataVintage.createMany({
+        data: rows
+          .filter((row) => !versionedIds.has(row.id))
+          .map((row) => this.vintageData(table, row, row.updatedAt)),
+      });
+      created += count;
+    } while (rows.length === SEED_BATCH_SIZE);
+
+    return created;
+  }
+
+  /** Ends the current vintage of rows that were deleted. */
+  async close(table: IngestionTable, recordIds: string[], client: Prisma.TransactionClient = this.prisma) {
+    if (recordIds.length === 0) {
+      return;
+    }
+
+    await client.dataVintage.updateMany({
+      where: { table, recordId: { in: recordIds }, validTo: null },
+      data: { validTo: new Date() },
+    });
+  }
+
+  /**
+   * Filter selecting the vintage of each row that was current at `asOf`.
+   * Rows stored before vintages were introduced are seeded with a vintage
+   * from their last update at that time, so an earlier `asOf` does not
+   * include them.
+   */
+  asOfWhere(table: IngestionTable, asOf: Date): Prisma.DataVintageWhereInput {
+    return {
+      table,
+      validFrom: { lte: asOf },
+      OR: [{ validTo: null }, { validTo: { gt: asOf } }],
+    };
+  }
+
+  /** Shapes a vintage like the row it versions. */
+  toRow(vintage: DataVintage) {
+    return {
+      id: vintage.recordId,
+      countyId: vintage.countyId,
+      year: vintage.year,
+      month: vintage.month,
+      ...(vintage.source && { source: vintage.source }),
+      ...(vintage.values as Record<string, unknown>),
+      syncLogId: vintage.syncLogId,
+      vintage: { validFrom: vintage.validFrom, validTo: vintage.validTo },
+    };
+  }
+
+  async getRevisions(countyId: string, filters: RevisionFilters) {
+    // A revision is a vintage that replaced an earlier one
+    const where: Prisma.DataVintageWhereInput = {
+      countyId,
+      table: filters.table,
+      source: filters.source,
+      year: filters.year,
+      month: filters.month,
+      previousId: { not: null },
+      ...(filters.since && { validFrom: { gte: filters.since } }),
+    };
+
+    const [vintages, total] = await Promise.all([
+      this.prisma.dataVintage.findMany({ where, orderBy: { validFrom: 'desc' }, take: filters.limit }),
+      this.prisma.dataVintage.count({ where }),
+    ]);
+    const previous = await this.prisma.dataVintage.findMany({
+      where: { id: { in: vintages.map((vintage) => vintage.previousId) } },
+    });
+    const previousById = new Map(previous.map((vintage) => [vintage.id, vintage]));
+
+    return {
+      countyId,
+      total,
+      revisions: vintages.map((vintage) => {
+        const replaced = previousById.get(vintage.previousId);
+
+        return {
+          table: vintage.table,
+          recordId: vintage.recordId,
+          year: vintage.year,
+          month: vintage.month,
+          source: vintage.source,
+          revisedAt: vintage.validFrom,
+          previousVintageFrom: replaced.validFrom,
+          syncLogId: vintage.syncLogId,
+          changes: this.diff(
+            replaced.values as Record<string, unknown>,
+            vintage.values as Record<string, unknown>,
+          ),
+        };
+      }),
+    };
+  }
+
+  private vintageData(table: IngestionTable, row: VintageRow, validFrom: Date): Prisma.DataVintageCreateManyInput {
+    return {
+      table,
+      recordId: row.id,
+      countyId: row.countyId,
+      year: row.year,
+      month: row.month,
+      source: row.source ?? null,
+      values: this.valuesOf(row) as Prisma.InputJsonObject,
+      syncLogId: row.syncLogId ?? null,
+      validFrom,
+    };
+  }
+
+  private valuesOf(row: VintageRow): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(row).filter(([key]) => !NON_VALUE_COLUMNS.includes(key)),
+    );
+  }
+
+  // jsonb does not preserve key order, so compare key by key
+  private sameValues(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+    return Object.keys(this.diff(a, b)).length === 0;
+  }
+
+  private diff(previous: Record<string, unknown>, next: Record<string, unknown>) {
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      const from = previous[key] ?? null;
+      const to = next[key] ?? null;
+      if (from !== to) {
+        changes[key] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { PrismaService } from '../../database/prisma.service';
+
+interface CrosswalkZip {
+  city: string | null;
+  stateCode: string | null;
+  links: {
+    fipsCode: string;
+    residentialRatio: number;
+    businessRatio: number | null;
+    otherRatio: number | null;
+    totalRatio: number | null;
+  }[];
+}
+
+const REQUIRED_COLUMNS = ['ZIP', 'COUNTY', 'RES_RATIO'];
+const CHUNK_SIZE = 1000;
+// A national crosswalk rewrites tens of thousands of ZIPs in one transaction
+const IMPORT_TIMEOUT_MS = 10 * 60_000;
+
+@Injectable()
+export class ZctaService {
+  private readonly logger = new Logger(ZctaService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Loads a HUD USPS ZIP_COUNTY crosswalk (XLSX or CSV) and replaces the
+   * county links of every ZIP it contains. ZIPs absent from the file are kept.
+   * The replacement is one transaction, so a failed import leaves the
+   * previous links in place.
+   */
+  async importCrosswalk(filePath: string, quarter?: string) {
+    const extension = path.extname(filePath).toLowerCase();
+    // Read CSV cells as text so ZIP and FIPS codes keep their leading zeros
+    const workbook = XLSX.read(await fs.readFile(filePath), { type: 'buffer', raw: extension === '.csv' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null })
+      .map((row) => Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key.trim().toUpperCase(), value]),
+      ));
+
+    const missing = REQUIRED_COLUMNS.filter((column) => rows.length > 0 && !(column in rows[0]));
+    if (rows.length === 0 || missing.length > 0) {
+      throw new Error(`${filePath} is not a ZIP_COUNTY crosswalk (missing ${missing.join(', ') || 'rows'})`);
+    }
+
+    const zips = new Map<string, CrosswalkZip>();
+    for (const row of rows) {
+      const zip = this.text(row.ZIP).padStart(5, '0');
+      const fipsCode = this.text(row.COUNTY).padStart(5, '0');
+      if (!/^\d{5}$/.test(zip) || !/^\d{5}$/.test(fipsCode)) continue;
+
+      const entry = zips.get(zip) ?? {
+        city: this.text(row.USPS_ZIP_PREF_CITY) || null,
+        stateCode: this.text(row.USPS_ZIP_PREF_STATE) || null,
+        links: [],
+      };
+      entry.links.push({
+        fipsCode,
+        residentialRatio: this.ratio(row.RES_RATIO) ?? 0,
+        businessRatio: this.ratio(row.BUS_RATIO),
+        otherRatio: this.ratio(row.OTH_RATIO),
+        totalRatio: this.ratio(row.TOT_RATIO),
+      });
+      zips.set(zip, entry);
+    }
+
+    const counties = await this.prisma.county.findMany({ select: { id: true, fipsCode: true } });
+    const countyIds = new Map(counties.map((county) => [county.fipsCode, county.id]));
+    const zipCodes = Array.from(zips.keys());
+    const result = { zips: zips.size, links: 0, unmatched: new Set<string>() };
+
+    await this.prisma.$transaction(async (tx) => {
+      for (let i = 0; i < zipCodes.length; i += CHUNK_SIZE) {
+        await tx.zcta.createMany({
+          data: zipCodes.slice(i, i + CHUNK_SIZE).map((zip) => ({ zip })),
+          skipDuplicates: true,
+        });
+      }
+
+      const zctas = await tx.zcta.findMany({ where: { zip: { in: zipCodes } } });
+
+      for (const zcta of zctas) {
+        const { city, stateCode, links } = zips.get(zcta.zip);
+        if (zcta.city !== city || zcta.stateCode !== stateCode || zcta.quarter !== (quarter ?? null)) {
+          await tx.zcta.update({ where: { id: zcta.id }, data: { city, stateCode, quarter } });
+        }
+      }
+
+      await tx.zctaCounty.deleteMany({ where: { zcta: { zip: { in: zipCodes } } } });
+
+      const links = zctas.flatMap((zcta) => zips.get(zcta.zip).links.flatMap(({ fipsCode, ...ratios }) => {
+        const countyId = countyIds.get(fipsCode);
+        if (!countyId) {
+          result.unmatched.add(fipsCode);
+          return [];
+        }
+
+        return [{ zctaId: zcta.id, countyId, ...ratios }];
+      }));
+
+      for (let i = 0; i < links.length; i += CHUNK_SIZE) {
+        result.links += (await tx.zctaCounty.createMany({
+          data: links.slice(i, i + CHUNK_SIZE),
+          skipDuplicates: true,
+        })).count;
+      }
+    }, { timeout: IMPORT_TIMEOUT_MS });
+
+    this.logger.log(
+      `Imported ${result.zips} ZIP codes with ${result.links} county links ` +
+        `(${result.unmatched.size} unknown counties)`,
+    );
+
+    return { zips: result.zips, links: result.links, unmatched: Array.from(result.unmatched) };
+  }
+
+  private ratio(value: unknown): number | null {
+    const ratio = Number(value);
+    return value === null || value === '' || !Number.isFinite(ratio) ? null : ratio;
+  }
+
+  private text(cell: unknown): string {
+    return cell === null || cell === undefined ? '' : String(cell).trim();
+  }
+}
@@ -0,0 +1,80 @@
+import { seasonalStrength, stl } from './decomposition.utils';
+
+// Deterministic noise so decompositions are reproducible
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+}
+
+const trendAt = (t: number) => 100 + 0.5 * t;
+const seasonAt = (t: number) => 10 * Math.sin((2 * Math.PI * t) / 12);
+
+/** Linear trend plus a fixed ±10 yearly cycle and a little noise. */
+function seasonalSeries(months: number, noiseLevel = 0.5): number[] {
+  const next = noise(7);
+  return Array.from({ length: months }, (_, t) => trendAt(t) + seasonAt(t) + noiseLevel * next());
+}
+
+describe('stl', () => {
+  it('needs two full periods', () => {
+    expect(() => stl(seasonalSeries(23))).toThrow('STL needs at least 24 observations, got 23');
+    expect(() => stl(seasonalSeries(7), { period: 4 })).toThrow('got 7');
+  });
+
+  it('splits the series into components that add back up', () => {
+    const values = seasonalSeries(60);
+    const { trend, seasonal, residual } = stl(values);
+
+    expect(trend).toHaveLength(60);
+    values.forEach((value, t) => {
+      expect(trend[t] + seasonal[t] + residual[t]).toBeCloseTo(value, 9);
+    });
+  });
+
+  it('recovers the trend and the seasonal pattern', () => {
+    const { trend, seasonal } = stl(seasonalSeries(72));
+
+    trend.forEach((value, t) => expect(Math.abs(value - trendAt(t))).toBeLessThan(1));
+    seasonal.forEach((value, t) => expect(Math.abs(value - seasonAt(t))).toBeLessThan(1));
+  });
+
+  it('keeps the trend out of the seasonal component', () => {
+    const { seasonal } = stl(seasonalSeries(72));
+
+    for (let start = 0; start + 12 <= 72; start += 12) {
+      const cycle = seasonal.slice(start, start + 12).reduce((sum, value) => sum + value, 0);
+      expect(Math.abs(cycle)).toBeLessThan(1);
+    }
+  });
+
+  it('leaves an outlier in the residual when fitted robustly', () => {
+    const values = seasonalSeries(72);
+    values[40] += 60;
+
+    const robust = stl(values);
+    const plain = stl(values, { robustIterations: 0 });
+
+    expect(robust.residual[40]).toBeGreaterThan(55);
+    expect(Math.abs(robust.trend[40] - trendAt(40))).toBeLessThan(Math.abs(plain.trend[40] - trendAt(40)));
+  });
+});
+
+describe('seasonalStrength', () => {
+  it('is close to 1 for a strongly seasonal series', () => {
+    expect(seasonalStrength(stl(seasonalSeries(72)))).toBeGreaterThan(0.9);
+  });
+
+  it('is low when the series has no seasonal pattern', () => {
+    const next = noise(11);
+    const values = Array.from({ length: 72 }, (_, t) => trendAt(t) + 5 * next());
+
+    expect(seasonalStrength(stl(values))).toBeLessThan(0.5);
+  });
+
+  it('is 0 for a flat series', () => {
+    expect(seasonalStrength(stl(new Array(36).fill(100)))).toBe(0);
+  });
+});
@@ -0,0 +1,188 @@
+export interface Decomposition {
+  trend: number[];
+  seasonal: number[];
+  residual: number[];
+}
+
+export interface StlOptions {
+  period?: number;
+  // Loess spans, in points: seasonal along each cycle-subseries, trend and
+  // low-pass along the series. Must be odd.
+  seasonalWindow?: number;
+  trendWindow?: number;
+  lowPassWindow?: number;
+  innerIterations?: number;
+  // Outer passes that downweight outliers; 0 for the non-robust fit
+  robustIterations?: number;
+}
+
+/**
+ * STL (Cleveland et al., 1990): splits an evenly spaced series into trend,
+ * seasonal and residual components with local linear (loess) smoothers, so
+ * the seasonal pattern may drift over the years. Needs at least two full
+ * periods and no missing values.
+ */
+export function stl(values: number[], options: StlOptions = {}): Decomposition {
+  const period = options.period ?? 12;
+  const n = values.length;
+  if (n < period * 2) {
+    throw new Error(`STL needs at least ${period * 2} observations, got ${n}`);
+  }
+
+  const seasonalWindow = odd(options.seasonalWindow ?? 7);
+  const trendWindow = odd(options.trendWindow ?? Math.ceil((1.5 * period) / (1 - 1.5 / seasonalWindow)));
+  const lowPassWindow = odd(options.lowPassWindow ?? period + 1);
+  const innerIterations = options.innerIterations ?? 2;
+  const robustIterations = options.robustIterations ?? 1;
+
+  let trend = new Array<number>(n).fill(0);
+  let seasonal = new Array<number>(n).fill(0);
+  let weights = new Array<number>(n).fill(1);
+
+  for (let outer = 0; outer <= robustIterations; outer++) {
+    for (let inner = 0; inner < innerIterations; inner++) {
+      const detrended = values.map((value, t) => value - trend[t]);
+
+      // Smooth each cycle-subseries (all Januaries, all Februaries, ...) and
+      // extend it by one cycle on both sides
+      const cycle = new Array<number>(n + 2 * period);
+      for (let k = 0; k < period; k++) {
+        const indexes = range(k, n, period);
+        const positions = range(-1, indexes.length + 1);
+        const smoothed = loess(
+          indexes.map((t) => detrended[t]),
+          seasonalWindow,
+          positions,
+          indexes.map((t) => weights[t]),
+        );
+        positions.forEach((position, i) => {
+          const t = position * period + k + period;
+          if (t >= 0 && t < cycle.length) cycle[t] = smoothed[i];
+        });
+      }
+
+      // Low-pass filter of the cycle-subseries, removed so the seasonal
+      // component carries no trend
+      const lowPass = loess(
+        movingAverage(movingAverage(movingAverage(cycle, period), period), 3),
+        lowPassWindow,
+        range(0, n),
+      );
+      seasonal = lowPass.map((value, t) => cycle[t + period] - value);
+
+      trend = loess(
+        values.map((value, t) => value - seasonal[t]),
+        trendWindow,
+        range(0, n),
+        weights,
+      );
+    }
+
+    if (outer < robustIterations) {
+      weights = robustnessWeights(values.map((value, t) => value - trend[t] - seasonal[t]));
+    }
+  }
+
+  return {
+    trend,
+    seasonal,
+    residual: values.map((value, t) => value - trend[t] - seasonal[t]),
+  };
+}
+
+/**
+ * Strength of seasonality between 0 and 1 (Wang, Smith & Hyndman, 2006):
+ * 1 - Var(residual) / Var(seasonal + residual).
+ */
+export function seasonalStrength({ seasonal, residual }: Decomposition): number {
+  const deseasonalised = seasonal.map((value, t) => value + residual[t]);
+  const total = variance(deseasonalised);
+  // Rounding error left by a flat series is not seasonality
+  return total > 1e-12 ? Math.max(0, 1 - variance(residual) / total) : 0;
+}
+
+/**
+ * Local linear regression with tricube weights over the `span` nearest
+ * points of y (observed at 0..n-1), evaluated at each position. Positions
+ * may lie outside the observed range.
+ */
+function loess(y: number[], span: number, positions: number[], weights?: number[]): number[] {
+  const n = y.length;
+  const q = Math.min(span, n);
+
+  return positions.map((x) => {
+    const left = Math.min(Math.max(0, Math.round(x - (q - 1) / 2)), n - q);
+    const right = left + q - 1;
+    // Widen the bandwidth when the span exceeds the series, as in the original
+    const reach = Math.max(x - left, right - x) + Math.max(0, (span - n) / 2);
+    const bandwidth = Math.max(reach, 1) * 1.000001;
+
+    let sumW = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sumXX = 0;
+    let sumXY = 0;
+    for (let j = left; j <= right; j++) {
+      const distance = Math.abs(j - x) / bandwidth;
+      const w = (1 - distance ** 3) ** 3 * (weights ? weights[j] : 1);
+      sumW += w;
+      sumX += w * j;
+      sumY += w * y[j];
+      sumXX += w * j * j;
+      sumXY += w * j * y[j];
+    }
+
+    if (sumW <= 0) {
+      return y[Math.min(Math.max(0, Math.round(x)), n - 1)];
+    }
+
+    const meanX = sumX / sumW;
+    const meanY = sumY / sumW;
+    const spread = sumXX / sumW - meanX * meanX;
+    const slope = spread > 1e-12 ? (sumXY / sumW - meanX * meanY) / spread : 0;
+    return meanY + slope * (x - meanX);
+  });
+}
+
+function movingAverage(values: number[], window: number): number[] {
+  const result: number[] = [];
+  let sum = values.slice(0, window).reduce((total, value) => total + value, 0);
+  result.push(sum / window);
+
+  for (let i = window; i < values.length; i++) {
+    sum += values[i] - values[i - window];
+    result.push(sum / window);
+  }
+
+  return result;
+}
+
+// Bisquare weights on residuals scaled by six median absolute residuals
+function robustnessWeights(residuals: number[]): number[] {
+  const absolute = residuals.map(Math.abs).sort((a, b) => a - b);
+  const middle = Math.floor(absolute.length / 2);
+  const median = absolute.length % 2 ? absolute[middle] : (absolute[middle - 1] + absolute[middle]) / 2;
+  const h = 6 * median;
+
+  return residuals.map((residual) => {
+    if (h === 0) return 1;
+    const u = Math.abs(residual) / h;
+    return u < 1 ? (1 - u * u) ** 2 : 0;
+  });
+}
+
+function range(start: number, end: number, step = 1): number[] {
+  const values: number[] = [];
+  for (let i = start; i < end; i += step) values.push(i);
+  return values;
+}
+
+function odd(value: number): number {
+  const rounded = Math.max(3, Math.round(value));
+  return rounded % 2 ? rounded : rounded + 1;
+}
+
+function variance(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+}
@@ -0,0 +1,152 @@
+import {
+  MIN_OBSERVATIONS,
+  SEASON_LENGTH,
+  backtestHoltWinters,
+  fitHoltWinters,
+  forecastHoltWinters,
+} from './forecast.utils';
+
+// Deterministic noise so fits are reproducible
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+}
+
+/** Monthly series growing 0.5% a month with a ±5% seasonal swing. */
+function seasonalSeries(months: number, noiseLevel = 0.01): number[] {
+  const next = noise(42);
+  return Array.from({ length: months }, (_, t) =>
+    100 * Math.exp(0.005 * t + 0.05 * Math.sin((2 * Math.PI * t) / SEASON_LENGTH) + noiseLevel * next()));
+}
+
+function expected(t: number): number {
+  return 100 * Math.exp(0.005 * t + 0.05 * Math.sin((2 * Math.PI * t) / SEASON_LENGTH));
+}
+
+describe('fitHoltWinters', () => {
+  it('needs a year of positive values', () => {
+    expect(fitHoltWinters(seasonalSeries(MIN_OBSERVATIONS - 1))).toBeNull();
+    expect(fitHoltWinters([...seasonalSeries(23), 0])).toBeNull();
+  });
+
+  it('fits a seasonal model from three years of data', () => {
+    const fit = fitHoltWinters(seasonalSeries(72));
+
+    expect(fit.seasonal).toBe(true);
+    expect(fit.observations).toBe(72);
+    expect(fit.season).toHaveLength(SEASON_LENGTH);
+    expect(fit.params.gamma).not.toBeNull();
+    expect(fit.params.beta).toBeLessThanOrEqual(fit.params.alpha);
+    expect(fit.params.gamma).toBeLessThanOrEqual(1 - fit.params.alpha);
+  });
+
+  it('drops the seasonal component for shorter series', () => {
+    const fit = fitHoltWinters(seasonalSeries(30));
+
+    expect(fit.seasonal).toBe(false);
+    expect(fit.params.gamma).toBeNull();
+    expect(fit.season).toEqual([]);
+  });
+
+  it('recovers the trend and seasonal pattern', () => {
+    const fit = fitHoltWinters(seasonalSeries(72));
+    const forecast = forecastHoltWinters(fit, 12);
+
+    forecast.forEach((point) => {
+      expect(Math.abs(point.value / expected(71 + point.horizon) - 1)).toBeLessThan(0.02);
+    });
+  });
+
+  it('estimates sigma close to the noise on the log scale', () => {
+    // Uniform noise of width 0.04 has a standard deviation of 0.04 / sqrt(12)
+    const fit = fitHoltWinters(seasonalSeries(120, 0.04));
+
+    expect(fit.sigma).toBeGreaterThan(0.008);
+    expect(fit.sigma).toBeLessThan(0.02);
+  });
+});
+
+describe('forecastHoltWinters', () => {
+  const fit = fitHoltWinters(seasonalSeries(72));
+  const forecast = forecastHoltWinters(fit, 12);
+
+  it('returns one point per month ahead', () => {
+    expect(forecast.map((point) => point.horizon)).toEqual(Array.from({ length: 12 }, (_, i) => i + 1));
+  });
+
+  it('nests the 80% interval inside the 95% interval around the point forecast', () => {
+    forecast.forEach((point) => {
+      expect(point.lower95).toBeLessThan(point.lower80);
+      expect(point.lower80).toBeLessThan(point.value);
+      expect(point.value).toBeLessThan(point.upper80);
+      expect(point.upper80).toBeLessThan(point.upper95);
+    });
+  });
+
+  it('uses sigma for the one-month interval', () => {
+    const [first] = forecast;
+
+    expect(Math.log(first.upper80 / first.value)).toBeCloseTo(1.2816 * fit.sigma, 10);
+    expect(Math.log(first.value / first.lower95)).toBeCloseTo(1.96 * fit.sigma, 10);
+  });
+
+  it('widens the intervals with the horizon', () => {
+    const widths = forecast.map((point) => Math.log(point.upper95 / point.lower95));
+
+    widths.slice(1).forEach((width, i) => expect(width).toBeGreaterThanOrEqual(widths[i]));
+    expect(widths[11]).toBeGreaterThan(widths[0]);
+  });
+});
+
+describe('backtestHoltWinters', () => {
+  it('scores every fold when the series is long enough', () => {
+    const backtest = backtestHoltWinters(seasonalSeries(72), [3, 6, 12]);
+
+    expect(backtest.map((entry) => entry.horizon)).toEqual([3, 6, 12]);
+    backtest.forEach((entry) => {
+      expect(entry.folds).toBe(4);
+      expect(entry.coverage80).toBeGreaterThanOrEqual(0);
+      expect(entry.coverage80).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('beats the naive forecast on a trending seasonal series', () => {
+    const backtest = backtestHoltWinters(seasonalSeries(72), [3, 6, 12]);
+
+    backtest.forEach((entry) => {
+      expect(entry.mape).toBeLessThan(5);
+      expect(entry.mape).toBeLessThan(entry.naiveMape);
+      expect(entry.rmse).toBeGreaterThan(0);
+    });
+  });
+
+  it('stops at origins too short to fit', () => {
+    // Origins at 14 and 11 months: only the first leaves a fittable year
+    const [entry] = backtestHoltWinters(seasonalSeries(26), [12]);
+
+    expect(entry.folds).toBe(1);
+  });
+
+  it('reports no errors without a single fold', () => {
+    const [entry] = backtestHoltWinters(seasonalSeries(23), [12]);
+
+    expect(entry).toEqual({
+      horizon: 12,
+      folds: 0,
+      mape: null,
+      rmse: null,
+      coverage80: null,
+      naiveMape: null,
+    });
+  });
+
+  it('honours the fold count and spacing', () => {
+    const [entry] = backtestHoltWinters(seasonalSeries(72), [12], 6, 6);
+
+    // Origins at 60, 54, 48, 42, 36 and 30 months
+    expect(entry.folds).toBe(6);
+  });
+});
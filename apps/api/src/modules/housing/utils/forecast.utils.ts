@@ -0,0 +1,245 @@
+export const SEASON_LENGTH = 12;
+
+// Shortest series worth fitting, and the length from which a seasonal
+// component is estimated (one season to initialise it, two to fit it)
+export const MIN_OBSERVATIONS = 12;
+const MIN_SEASONAL_OBSERVATIONS = SEASON_LENGTH * 3;
+
+// Candidate smoothing parameters; the fit keeps the combination with the
+// lowest one-step squared error
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0, 0.02, 0.05, 0.1, 0.2];
+const GAMMAS = [0, 0.05, 0.15, 0.3];
+const PHIS = [0.9, 0.95, 0.98];
+
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+export interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number | null;
+  phi: number;
+}
+
+export interface HoltWintersFit {
+  params: HoltWintersParams;
+  seasonal: boolean;
+  observations: number;
+  // Standard deviation of the one-step errors on the log scale
+  sigma: number;
+  level: number;
+  trend: number;
+  // Seasonal states in calendar order of the months following the last observation
+  season: number[];
+}
+
+export interface ForecastPoint {
+  horizon: number;
+  value: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface BacktestHorizon {
+  horizon: number;
+  folds: number;
+  // Mean absolute percentage error and root mean squared error of the point forecast
+  mape: number | null;
+  rmse: number | null;
+  // Share of actuals inside the 80% interval
+  coverage80: number | null;
+  // MAPE of carrying the last observation forward, for comparison
+  naiveMape: number | null;
+}
+
+interface FilterResult {
+  sse: number;
+  errors: number;
+  level: number;
+  trend: number;
+  season: number[];
+}
+
+/**
+ * Fits an additive damped-trend Holt-Winters model (ETS(A,Ad,A)) to the log
+ * of a monthly series, so seasonality and intervals are multiplicative in the
+ * original units. Series shorter than three years are fitted without the
+ * seasonal component. Values must be positive and consecutive months.
+ */
+export function fitHoltWinters(values: number[]): HoltWintersFit | null {
+  if (values.length < MIN_OBSERVATIONS || values.some((value) => !(value > 0))) {
+    return null;
+  }
+
+  const logs = values.map((value) => Math.log(value));
+  const seasonal = logs.length >= MIN_SEASONAL_OBSERVATIONS;
+  let best: { params: HoltWintersParams; result: FilterResult } | null = null;
+
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS.filter((beta) => beta <= alpha)) {
+      for (const gamma of seasonal ? GAMMAS.filter((gamma) => gamma <= 1 - alpha) : [null]) {
+        for (const phi of PHIS) {
+          const params = { alpha, beta, gamma, phi };
+          const result = filter(logs, params, seasonal);
+          if (!best || result.sse < best.result.sse) {
+            best = { params, result };
+          }
+        }
+      }
+    }
+  }
+
+  const { params, result } = best;
+  const parameterCount = seasonal ? 4 : 3;
+  const degreesOfFreedom = Math.max(1, result.errors - parameterCount);
+  const n = logs.length;
+
+  return {
+    params,
+    seasonal,
+    observations: n,
+    sigma: Math.sqrt(result.sse / degreesOfFreedom),
+    level: result.level,
+    trend: result.trend,
+    season: seasonal
+      ? Array.from({ length: SEASON_LENGTH }, (_, i) => result.season[(n + i) % SEASON_LENGTH])
+      : [],
+  };
+}
+
+/**
+ * Point forecasts and 80%/95% prediction intervals for 1..horizons months
+ * ahead, back in the original units. Interval widths use the ETS(A,Ad,A)
+ * forecast variance sigma^2 * (1 + sum over j < h of c_j^2), with
+ * c_j = alpha + beta * (phi + ... + phi^j) + gamma when j is a whole season.
+ */
+export function forecastHoltWinters(fit: HoltWintersFit, horizons: number): ForecastPoint[] {
+  const { alpha, beta, gamma, phi } = fit.params;
+  const points: ForecastPoint[] = [];
+  let dampedSum = 0;
+  let variance = 0;
+
+  for (let h = 1; h <= horizons; h++) {
+    if (h > 1) {
+      const j = h - 1;
+      const seasonalTerm = fit.seasonal && j % SEASON_LENGTH === 0 ? gamma : 0;
+      const c = alpha + beta * dampedSum + seasonalTerm;
+      variance += c * c;
+    }
+    dampedSum += Math.pow(phi, h);
+
+    const season = fit.seasonal ? fit.season[(h - 1) % SEASON_LENGTH] : 0;
+    const mean = fit.level + dampedSum * fit.trend + season;
+    const sd = fit.sigma * Math.sqrt(1 + variance);
+
+    points.push({
+      horizon: h,
+      value: Math.exp(mean),
+      lower80: Math.exp(mean - Z_80 * sd),
+      upper80: Math.exp(mean + Z_80 * sd),
+      lower95: Math.exp(mean - Z_95 * sd),
+      upper95: Math.exp(mean + Z_95 * sd),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Rolling-origin backtest: refits the model on the series cut at `folds`
+ * origins `step` months apart, the latest one leaving the longest horizon
+ * observable, and scores each horizon against the actual values.
+ */
+export function backtestHoltWinters(
+  values: number[],
+  horizons: number[],
+  folds = 4,
+  step = 3,
+): BacktestHorizon[] {
+  const longest = Math.max(...horizons);
+  const errors = new Map(horizons.map((horizon) => [
+    horizon,
+    { absolutePercent: [] as number[], squared: [] as number[], covered: 0, naive: [] as number[] },
+  ]));
+
+  for (let fold = 0; fold < folds; fold++) {
+    const origin = values.length - longest - fold * step;
+    const fit = origin >= MIN_OBSERVATIONS ? fitHoltWinters(values.slice(0, origin)) : null;
+    if (!fit) break;
+
+    const forecast = forecastHoltWinters(fit, longest);
+    const last = values[origin - 1];
+
+    for (const horizon of horizons) {
+      const actual = values[origin + horizon - 1];
+      const { value, lower80, upper80 } = forecast[horizon - 1];
+      const entry = errors.get(horizon);
+
+      entry.absolutePercent.push((Math.abs(value - actual) / actual) * 100);
+      entry.squared.push((value - actual) ** 2);
+      entry.naive.push((Math.abs(last - actual) / actual) * 100);
+      if (actual >= lower80 && actual <= upper80) entry.covered++;
+    }
+  }
+
+  return horizons.map((horizon) => {
+    const { absolutePercent, squared, covered, naive } = errors.get(horizon);
+    const folds = absolutePercent.length;
+
+    return {
+      horizon,
+      folds,
+      mape: folds > 0 ? mean(absolutePercent) : null,
+      rmse: folds > 0 ? Math.sqrt(mean(squared)) : null,
+      coverage80: folds > 0 ? covered / folds : null,
+      naiveMape: folds > 0 ? mean(naive) : null,
+    };
+  });
+}
+
+function filter(logs: number[], params: HoltWintersParams, seasonal: boolean): FilterResult {
+  const { alpha, beta, gamma, phi } = params;
+  let level: number;
+  let trend: number;
+  let season: number[] = [];
+  let start: number;
+
+  if (seasonal) {
+    // Classical start: first-year mean as the level, the change to the second
+    // year's mean as the trend, and first-year deviations as the seasonals
+    const firstYear = mean(logs.slice(0, SEASON_LENGTH));
+    const secondYear = mean(logs.slice(SEASON_LENGTH, SEASON_LENGTH * 2));
+    level = firstYear;
+    trend = (secondYear - firstYear) / SEASON_LENGTH;
+    season = logs.slice(0, SEASON_LENGTH).map((value) => value - firstYear);
+    start = SEASON_LENGTH;
+    // Roll the level forward to the end of the first year
+    level += trend * (SEASON_LENGTH - 1) / 2;
+  } else {
+    level = logs[0];
+    trend = logs[1] - logs[0];
+    start = 1;
+  }
+
+  let sse = 0;
+  for (let t = start; t < logs.length; t++) {
+    const s = seasonal ? season[t % SEASON_LENGTH] : 0;
+    const error = logs[t] - (level + phi * trend + s);
+
+    level = level + phi * trend + alpha * error;
+    trend = phi * trend + beta * error;
+    if (seasonal) {
+      season[t % SEASON_LENGTH] = s + gamma * error;
+    }
+    sse += error * error;
+  }
+
+  return { sse, errors: logs.length - start, level, trend, season };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
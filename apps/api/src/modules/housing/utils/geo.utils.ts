@@ -0,0 +1,158 @@
+export type Position = [number, number];
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Position[][];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Position[][][];
+}
+
+export type AreaGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+export type BoundingBox = [number, number, number, number];
+
+const polygonsOf = (geometry: AreaGeometry): Position[][][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+export function boundingBox(geometry: AreaGeometry): BoundingBox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [x, y] of polygon[0] ?? []) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  return [minX, minY, maxX, maxY];
+}
+
+/**
+ * Area-weighted centroid of the outer rings in planar lon/lat. Good enough
+ * for placing markers; it can fall outside strongly concave shapes.
+ */
+export function centroid(geometry: AreaGeometry): Position | null {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (const polygon of polygonsOf(geometry)) {
+    const ring = polygon[0] ?? [];
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [x1, y1] = ring[i];
+      const [x2, y2] = ring[i + 1];
+      const cross = x1 * y2 - x2 * y1;
+      area += cross;
+      cx += (x1 + x2) * cross;
+      cy += (y1 + y2) * cross;
+    }
+  }
+
+  if (area === 0) {
+    return null;
+  }
+
+  return [cx / (3 * area), cy / (3 * area)];
+}
+
+/**
+ * Douglas-Peucker simplification applied ring by ring. Rings that collapse
+ * below a valid polygon are dropped; if nothing survives the original
+ * geometry is returned so small counties never disappear.
+ */
+export function simplify(geometry: AreaGeometry, tolerance: number): AreaGeometry {
+  if (tolerance <= 0) {
+    return geometry;
+  }
+
+  const polygons = polygonsOf(geometry)
+    .map((polygon) => {
+      const [outer, ...holes] = polygon.map((ring) => simplifyRing(ring, tolerance));
+      return outer ? [outer, ...holes.filter(Boolean)] : null;
+    })
+    .filter(Boolean);
+
+  if (polygons.length === 0) {
+    return geometry;
+  }
+
+  return geometry.type === 'Polygon'
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function simplifyRing(ring: Position[], tolerance: number): Position[] | null {
+  if (ring.length <= 4) {
+    return ring;
+  }
+
+  const keep = new Array<boolean>(ring.length).fill(false);
+  keep[0] = true;
+  keep[ring.length - 1] = true;
+
+  // Closed rings start and end on the same point, so split at the farthest
+  // vertex first to give the algorithm a proper baseline.
+  const split = farthestFrom(ring, 0);
+  keep[split] = true;
+
+  const stack: [number, number][] = [[0, split], [split, ring.length - 1]];
+  const toleranceSq = tolerance * tolerance;
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop();
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = segmentDistanceSq(ring[i], ring[start], ring[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > toleranceSq) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  const simplified = ring.filter((_, i) => keep[i]);
+  return simplified.length >= 4 ? simplified : null;
+}
+
+function farthestFrom(ring: Position[], origin: number): number {
+  let farthest = origin;
+  let maxDistance = -1;
+
+  ring.forEach(([x, y], i) => {
+    const distance = (x - ring[origin][0]) ** 2 + (y - ring[origin][1]) ** 2;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = i;
+    }
+  });
+
+  return farthest;
+}
+
+function segmentDistanceSq([px, py]: Position, [ax, ay]: Position, [bx, by]: Position): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  const x = ax + t * dx;
+  const y = ay + t * dy;
+
+  return (px - x) ** 2 + (py - y) ** 2;
+}
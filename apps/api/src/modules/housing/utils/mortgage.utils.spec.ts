@@ -0,0 +1,92 @@
+import { MortgageAssumptions, amortizedPayment, maxPriceForPayment, pitiPayment } from './mortgage.utils';
+
+const assumptions: MortgageAssumptions = {
+  annualRate: 6,
+  termYears: 30,
+  downPaymentPercent: 20,
+  propertyTaxRate: 1.2,
+  insuranceRate: 0.5,
+  pmiRate: 0.5,
+  monthlyHoa: 0,
+};
+
+describe('amortizedPayment', () => {
+  it('matches published amortization tables', () => {
+    expect(amortizedPayment(200_000, 6, 30)).toBeCloseTo(1199.1, 2);
+    expect(amortizedPayment(300_000, 7, 30)).toBeCloseTo(1995.91, 2);
+    expect(amortizedPayment(250_000, 5.5, 15)).toBeCloseTo(2042.71, 2);
+  });
+
+  it('spreads the principal evenly without interest', () => {
+    expect(amortizedPayment(120_000, 0, 10)).toBe(1000);
+  });
+
+  it('is zero without a loan', () => {
+    expect(amortizedPayment(0, 6, 30)).toBe(0);
+  });
+});
+
+describe('pitiPayment', () => {
+  it('adds taxes, insurance and HOA to principal and interest', () => {
+    const payment = pitiPayment(250_000, { ...assumptions, monthlyHoa: 150 });
+
+    expect(payment).toMatchObject({
+      price: 250_000,
+      downPayment: 50_000,
+      loanAmount: 200_000,
+      loanToValue: 0.8,
+      propertyTax: 250,
+      pmi: 0,
+      hoa: 150,
+    });
+    expect(payment.insurance).toBeCloseTo(104.17, 2);
+    expect(payment.principalAndInterest).toBeCloseTo(1199.1, 2);
+    expect(payment.total).toBeCloseTo(1199.1 + 250 + 104.17 + 150, 1);
+  });
+
+  it('charges PMI on the loan only above 80% loan-to-value', () => {
+    expect(pitiPayment(400_000, { ...assumptions, downPaymentPercent: 20 }).pmi).toBe(0);
+    expect(pitiPayment(400_000, { ...assumptions, downPaymentPercent: 10 }).pmi).toBe(150);
+  });
+
+  it('prefers a fixed down payment and never exceeds the price', () => {
+    expect(pitiPayment(400_000, { ...assumptions, downPayment: 100_000 })).toMatchObject({
+      downPayment: 100_000,
+      loanAmount: 300_000,
+      loanToValue: 0.75,
+    });
+    expect(pitiPayment(50_000, { ...assumptions, downPayment: 100_000 })).toMatchObject({
+      downPayment: 50_000,
+      loanAmount: 0,
+      principalAndInterest: 0,
+    });
+  });
+});
+
+describe('maxPriceForPayment', () => {
+  // $120,000 a year with $900 of other debts: the 36% back-end limit binds
+  // before the 28% front-end one
+  const monthlyIncome = 10_000;
+  const limit = Math.min(monthlyIncome * 0.28, monthlyIncome * 0.36 - 900);
+
+  it('finds the highest price within the DTI limit to the dollar', () => {
+    const price = maxPriceForPayment(limit, assumptions);
+
+    expect(limit).toBe(2700);
+    expect(pitiPayment(price, assumptions).total).toBeLessThanOrEqual(limit);
+    expect(pitiPayment(price + 1, assumptions).total).toBeGreaterThan(limit);
+  });
+
+  it('stops below the price at which PMI switches on', () => {
+    // With $60,000 down the loan-to-value passes 80% above $300,000
+    const fixedDown = { ...assumptions, downPayment: 60_000 };
+    const payment = pitiPayment(300_000, fixedDown).total + 10;
+
+    expect(pitiPayment(300_001, fixedDown).total).toBeGreaterThan(payment);
+    expect(maxPriceForPayment(payment, fixedDown)).toBe(300_000);
+  });
+
+  it('is zero when fixed costs alone exceed the payment', () => {
+    expect(maxPriceForPayment(100, { ...assumptions, monthlyHoa: 200 })).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+// Loan-to-value above which private mortgage insurance is charged
+const PMI_LTV_THRESHOLD = 0.8;
+
+// Upper bound for the price search, in dollars
+const MAX_PRICE = 100_000_000;
+
+export interface MortgageAssumptions {
+  // Annual interest rate, percent
+  annualRate: number;
+  termYears: number;
+  // A fixed amount takes precedence over a percentage of the price
+  downPayment?: number;
+  downPaymentPercent: number;
+  // Annual percent of the price
+  propertyTaxRate: number;
+  insuranceRate: number;
+  // Annual percent of the loan amount while the loan-to-value exceeds 80%
+  pmiRate: number;
+  monthlyHoa: number;
+}
+
+export interface PitiBreakdown {
+  price: number;
+  downPayment: number;
+  loanAmount: number;
+  loanToValue: number;
+  principalAndInterest: number;
+  propertyTax: number;
+  insurance: number;
+  pmi: number;
+  hoa: number;
+  total: number;
+}
+
+/** Level monthly principal and interest payment of a fully amortizing loan. */
+export function amortizedPayment(principal: number, annualRate: number, termYears: number): number {
+  const months = termYears * 12;
+  const monthlyRate = annualRate / 100 / 12;
+
+  if (principal <= 0) return 0;
+  if (monthlyRate === 0) return principal / months;
+
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/** Monthly principal, interest, taxes, insurance, PMI and HOA for a home at `price`. */
+export function pitiPayment(price: number, assumptions: MortgageAssumptions): PitiBreakdown {
+  const downPayment = Math.min(
+    price,
+    assumptions.downPayment ?? (price * assumptions.downPaymentPercent) / 100,
+  );
+  const loanAmount = price - downPayment;
+  const loanToValue = price > 0 ? loanAmount / price : 0;
+
+  const principalAndInterest = amortizedPayment(loanAmount, assumptions.annualRate, assumptions.termYears);
+  const propertyTax = (price * assumptions.propertyTaxRate) / 100 / 12;
+  const insurance = (price * assumptions.insuranceRate) / 100 / 12;
+  const pmi = loanToValue > PMI_LTV_THRESHOLD ? (loanAmount * assumptions.pmiRate) / 100 / 12 : 0;
+  const hoa = assumptions.monthlyHoa;
+
+  return {
+    price,
+    downPayment,
+    loanAmount,
+    loanToValue,
+    principalAndInterest,
+    propertyTax,
+    insurance,
+    pmi,
+    hoa,
+    total: principalAndInterest + propertyTax + insurance + pmi + hoa,
+  };
+}
+
+/**
+ * Highest whole-dollar price whose total monthly payment stays within
+ * `payment`. The payment never falls as the price rises (PMI only switches
+ * on), so the price is found by bisection over whole dollars.
+ */
+export function maxPriceForPayment(payment: number, assumptions: MortgageAssumptions): number {
+  if (pitiPayment(0, assumptions).total > payment) {
+    return 0;
+  }
+
+  let low = 0;
+  let high = MAX_PRICE;
+  while (high - low > 1) {
+    const price = Math.floor((low + high) / 2);
+    if (pitiPayment(price, assumptions).total <= payment) {
+      low = price;
+    } else {
+      high = price;
+    }
+  }
+
+  return low;
+}
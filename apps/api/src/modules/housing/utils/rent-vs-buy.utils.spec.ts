@@ -0,0 +1,140 @@
+import { amortizedPayment } from './mortgage.utils';
+import { RentVsBuyInputs, RentVsBuyYear, breakEvenYear, simulateRentVsBuy } from './rent-vs-buy.utils';
+
+// No growth, no loan costs beyond the mortgage and no taxes unless a test adds them
+const base: RentVsBuyInputs = {
+  years: 5,
+  homePrice: 300_000,
+  monthlyRent: 1_500,
+  appreciationRate: 0,
+  rentGrowthRate: 0,
+  mortgageRate: 0,
+  termYears: 30,
+  downPayment: 60_000,
+  propertyTaxRate: 0,
+  insuranceRate: 0,
+  pmiRate: 0,
+  maintenanceRate: 0,
+  monthlyHoa: 0,
+  buyingCosts: 0,
+  sellingCosts: 0,
+  investmentReturn: 0,
+  investmentTaxRate: 0,
+  marginalTaxRate: 0,
+  standardDeduction: 0,
+  saltCap: 40_400,
+};
+
+describe('simulateRentVsBuy', () => {
+  it('breaks even every year when both paths cost the same and nothing grows', () => {
+    // Bought outright: property tax is the only ownership cost and equals the rent
+    const years = simulateRentVsBuy({
+      ...base,
+      downPayment: base.homePrice,
+      propertyTaxRate: 1.2,
+      monthlyRent: 300,
+      marginalTaxRate: 22,
+      standardDeduction: 32_200,
+    });
+
+    expect(years).toHaveLength(5);
+    years.forEach(({ year, buy, rent, buyAdvantage }) => {
+      expect(buy.taxSavings).toBe(0);
+      expect(buy.netWorth).toBeCloseTo(base.homePrice, 6);
+      expect(rent.netWorth).toBeCloseTo(base.homePrice, 6);
+      expect(buy.netCost).toBeCloseTo(3_600 * year, 6);
+      expect(rent.netCost).toBeCloseTo(3_600 * year, 6);
+      expect(buyAdvantage).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('tax savings', () => {
+    const taxed: RentVsBuyInputs = {
+      ...base,
+      homePrice: 500_000,
+      downPayment: 100_000,
+      mortgageRate: 6,
+      propertyTaxRate: 1,
+      marginalTaxRate: 25,
+      years: 1,
+    };
+    // First-year interest is what the payments did not put toward principal
+    const [first] = simulateRentVsBuy(taxed);
+    const interest = 12 * amortizedPayment(400_000, 6, 30) - (400_000 - first.buy.loanBalance);
+    const itemized = interest + 5_000;
+
+    it('deducts mortgage interest and property tax at the marginal rate', () => {
+      expect(first.buy.taxSavings).toBeCloseTo(itemized * 0.25, 6);
+    });
+
+    it('saves only on itemized deductions above the standard deduction', () => {
+      const [above] = simulateRentVsBuy({ ...taxed, standardDeduction: itemized - 1_000 });
+      const [below] = simulateRentVsBuy({ ...taxed, standardDeduction: itemized + 1_000 });
+
+      expect(above.buy.taxSavings).toBeCloseTo(250, 6);
+      expect(below.buy.taxSavings).toBe(0);
+    });
+
+    it('caps the property tax deduction at the SALT cap', () => {
+      const [capped] = simulateRentVsBuy({ ...taxed, saltCap: 2_000 });
+
+      expect(first.buy.taxSavings - capped.buy.taxSavings).toBeCloseTo(3_000 * 0.25, 6);
+    });
+  });
+
+  it('stops charging PMI once the balance reaches 80% of the price', () => {
+    // $90,000 interest-free over 10 years repays $750 a month; PMI is $75 a
+    // month until the balance falls to $80,000 two months into year 2
+    const years = simulateRentVsBuy({
+      ...base,
+      homePrice: 100_000,
+      downPayment: 10_000,
+      termYears: 10,
+      pmiRate: 1,
+      years: 3,
+    });
+
+    expect(years.map((year) => year.buy.loanBalance)).toEqual([81_000, 72_000, 63_000]);
+    expect(years.map((year) => year.buy.cashSpent)).toEqual([
+      10_000 + 12 * 750 + 12 * 75,
+      10_000 + 24 * 750 + 14 * 75,
+      10_000 + 36 * 750 + 14 * 75,
+    ]);
+  });
+
+  it('invests the cheaper path\'s savings and taxes only the gains', () => {
+    const [year] = simulateRentVsBuy({
+      ...base,
+      downPayment: base.homePrice,
+      monthlyRent: 1_000,
+      investmentReturn: 5,
+      investmentTaxRate: 20,
+      years: 1,
+    });
+
+    // The renter invests the purchase price, which grows 5% in a year
+    expect(year.rent.portfolio).toBeCloseTo(base.homePrice * 1.05, 6);
+    expect(year.rent.netWorth).toBeCloseTo(base.homePrice * (1 + 0.05 * 0.8), 6);
+    // The owner has no monthly costs and invests the rent they no longer pay
+    expect(year.buy.portfolio).toBeGreaterThan(12_000);
+    expect(year.buy.cashSpent).toBe(base.homePrice);
+  });
+});
+
+describe('breakEvenYear', () => {
+  const years = (...advantages: number[]) =>
+    advantages.map((buyAdvantage, i) => ({ year: i + 1, buyAdvantage }) as RentVsBuyYear);
+
+  it('is the first year when buying is ahead throughout', () => {
+    expect(breakEvenYear(years(10, 20, 30))).toBe(1);
+  });
+
+  it('is the year from which buying stays ahead', () => {
+    expect(breakEvenYear(years(-30, 5, -2, 0, 8))).toBe(4);
+  });
+
+  it('is null when renting is ahead at the end', () => {
+    expect(breakEvenYear(years(-10, 5, 8, -1))).toBeNull();
+    expect(breakEvenYear([])).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { amortizedPayment } from './mortgage.utils';
+
+// Federal figures for married couples filing jointly, used when the caller
+// does not supply their own. Both change with the tax year.
+export const TAX_YEAR = 2026;
+export const DEFAULT_STANDARD_DEDUCTION = 32_200;
+// Cap on the state and local tax deduction, which includes property tax; it
+// phases down toward $10,000 for incomes above $500,000, which isn't modelled
+export const DEFAULT_SALT_CAP = 40_400;
+
+// PMI is dropped once the balance reaches 80% of the purchase price
+const PMI_LTV_THRESHOLD = 0.8;
+
+export interface RentVsBuyInputs {
+  years: number;
+  homePrice: number;
+  monthlyRent: number;
+  // Annual rates, percent
+  appreciationRate: number;
+  rentGrowthRate: number;
+  mortgageRate: number;
+  termYears: number;
+  downPayment: number;
+  propertyTaxRate: number;
+  insuranceRate: number;
+  pmiRate: number;
+  maintenanceRate: number;
+  monthlyHoa: number;
+  // Percent of the purchase price and of the sale price
+  buyingCosts: number;
+  sellingCosts: number;
+  // Return on money not tied up in the home, and the tax on its gains
+  investmentReturn: number;
+  investmentTaxRate: number;
+  // Mortgage interest and property tax are deducted only above the standard deduction
+  marginalTaxRate: number;
+  standardDeduction: number;
+  saltCap: number;
+}
+
+export interface RentVsBuyYear {
+  year: number;
+  buy: {
+    cashSpent: number;
+    taxSavings: number;
+    homeValue: number;
+    loanBalance: number;
+    // Home value less the loan and selling costs
+    equity: number;
+    portfolio: number;
+    netWorth: number;
+    netCost: number;
+  };
+  rent: {
+    cashSpent: number;
+    portfolio: number;
+    netWorth: number;
+    netCost: number;
+  };
+  // Rent net cost minus buy net cost; positive when buying comes out ahead
+  buyAdvantage: number;
+}
+
+interface Portfolio {
+  value: number;
+  basis: number;
+}
+
+/**
+ * Month-by-month comparison of buying a home and renting one. Both paths
+ * start with the down payment and closing costs in hand and spend the same
+ * amount every month: whichever path costs less that month invests the
+ * difference, so the opportunity cost of the down payment and of higher
+ * ownership costs is carried by the renter's (or buyer's) portfolio.
+ *
+ * A path's net cost at the end of a year is everything paid in so far minus
+ * what would be left after selling the home and liquidating investments
+ * (after capital gains tax; the gain on a primary residence is assumed to be
+ * excluded). Ownership costs other than principal and interest follow the
+ * home value; rent rises once a year.
+ */
+export function simulateRentVsBuy(inputs: RentVsBuyInputs): RentVsBuyYear[] {
+  const monthlyAppreciation = Math.pow(1 + inputs.appreciationRate / 100, 1 / 12) - 1;
+  const monthlyReturn = Math.pow(1 + inputs.investmentReturn / 100, 1 / 12) - 1;
+  const monthlyRate = inputs.mortgageRate / 100 / 12;
+
+  const downPayment = Math.min(inputs.downPayment, inputs.homePrice);
+  const closingCosts = (inputs.homePrice * inputs.buyingCosts) / 100;
+  const upfront = downPayment + closingCosts;
+  const principalAndInterest = amortizedPayment(inputs.homePrice - downPayment, inputs.mortgageRate, inputs.termYears);
+
+  let homeValue = inputs.homePrice;
+  let balance = inputs.homePrice - downPayment;
+  let rent = inputs.monthlyRent;
+  let contributed = upfront;
+
+  const buy = { cashSpent: upfront, taxSavings: 0, portfolio: { value: 0, basis: 0 } as Portfolio };
+  const renter = { cashSpent: 0, portfolio: { value: upfront, basis: upfront } as Portfolio };
+  const years: RentVsBuyYear[] = [];
+
+  for (let year = 1; year <= inputs.years; year++) {
+    let interestPaid = 0;
+    let propertyTaxPaid = 0;
+
+    for (let month = 0; month < 12; month++) {
+      const interest = balance * monthlyRate;
+      const payment = balance > 0 ? Math.min(principalAndInterest, balance + interest) : 0;
+      const pmi = balance > inputs.homePrice * PMI_LTV_THRESHOLD
+        ? (inputs.homePrice - downPayment) * inputs.pmiRate / 100 / 12
+        : 0;
+      const propertyTax = (homeValue * inputs.propertyTaxRate) / 100 / 12;
+      const ownership = propertyTax
+        + (homeValue * (inputs.insuranceRate + inputs.maintenanceRate)) / 100 / 12
+        + pmi
+        + inputs.monthlyHoa;
+
+      balance = Math.max(0, balance + interest - payment);
+      interestPaid += Math.min(interest, payment);
+      propertyTaxPaid += propertyTax;
+
+      const buyCost = payment + ownership;
+      const budget = Math.max(buyCost, rent);
+      buy.cashSpent += buyCost;
+      renter.cashSpent += rent;
+      contributed += budget;
+
+      grow(buy.portfolio, monthlyReturn);
+      grow(renter.portfolio, monthlyReturn);
+      invest(buy.portfolio, budget - buyCost);
+      invest(renter.portfolio, budget - rent);
+
+      homeValue *= 1 + monthlyAppreciation;
+    }
+
+    // Itemized deductions only help beyond the standard deduction; the
+    // refund is invested with the buyer's other savings
+    const itemized = interestPaid + Math.min(propertyTaxPaid, inputs.saltCap);
+    const taxSavings = (Math.max(0, itemized - inputs.standardDeduction) * inputs.marginalTaxRate) / 100;
+    buy.taxSavings += taxSavings;
+    invest(buy.portfolio, taxSavings);
+
+    const equity = homeValue * (1 - inputs.sellingCosts / 100) - balance;
+    const buyNetWorth = equity + liquidate(buy.portfolio, inputs.investmentTaxRate);
+    const rentNetWorth = liquidate(renter.portfolio, inputs.investmentTaxRate);
+    const buyNetCost = contributed - buyNetWorth;
+    const rentNetCost = contributed - rentNetWorth;
+
+    years.push({
+      year,
+      buy: {
+        cashSpent: buy.cashSpent,
+        taxSavings: buy.taxSavings,
+        homeValue,
+        loanBalance: balance,
+        equity,
+        portfolio: buy.portfolio.value,
+        netWorth: buyNetWorth,
+        netCost: buyNetCost,
+      },
+      rent: {
+        cashSpent: renter.cashSpent,
+        portfolio: renter.portfolio.value,
+        netWorth: rentNetWorth,
+        netCost: rentNetCost,
+      },
+      buyAdvantage: rentNetCost - buyNetCost,
+    });
+
+    rent *= 1 + inputs.rentGrowthRate / 100;
+  }
+
+  return years;
+}
+
+/** First year from which buying stays cheaper than renting through the horizon, or null. */
+export function breakEvenYear(years: RentVsBuyYear[]): number | null {
+  let breakEven: number | null = null;
+
+  for (const { year, buyAdvantage } of years) {
+    if (buyAdvantage < 0) {
+      breakEven = null;
+    } else if (breakEven === null) {
+      breakEven = year;
+    }
+  }
+
+  return breakEven;
+}
+
+function grow(portfolio: Portfolio, rate: number) {
+  portfolio.value *= 1 + rate;
+}
+
+function invest(portfolio: Portfolio, amount: number) {
+  if (amount <= 0) return;
+  portfolio.value += amount;
+  portfolio.basis += amount;
+}
+
+function liquidate(portfolio: Portfolio, taxRate: number): number {
+  return portfolio.value - (Math.max(0, portfolio.value - portfolio.basis) * taxRate) / 100;
+}
@@ -0,0 +1,96 @@
+import { HOUSING_SERIES_FIELDS, periodIndex, resample, seriesStatistics } from './series.utils';
+
+/** Monthly housing rows from January 2022 with a price rising $1,000 a month. */
+function monthlyRows(months: number) {
+  return Array.from({ length: months }, (_, t) => ({
+    year: 2022 + Math.floor(t / 12),
+    month: (t % 12) + 1,
+    medianHomePrice: 300_000 + 1_000 * t,
+    salesVolume: 100,
+  }));
+}
+
+/** Points of a series growing by `rate` per month at the given month offsets. */
+function growing(offsets: number[], rate: number) {
+  return offsets.map((offset) => ({ index: periodIndex(2020, 1) + offset, value: 100 * (1 + rate) ** offset }));
+}
+
+describe('resample', () => {
+  it('averages levels and sums flows by quarter, labelled by the first month', () => {
+    const [first, second] = resample(monthlyRows(6), 3, HOUSING_SERIES_FIELDS);
+
+    expect(first).toMatchObject({
+      year: 2022,
+      month: 1,
+      quarter: 1,
+      months: 3,
+      complete: true,
+      medianHomePrice: 301_000,
+      salesVolume: 300,
+    });
+    expect(second).toMatchObject({ month: 4, quarter: 2, medianHomePrice: 304_000 });
+  });
+
+  it('flags partial buckets and leaves fields without values empty', () => {
+    const rows = monthlyRows(14).map((row) => ({ ...row, salesVolume: null }));
+    const years = resample(rows, 12, HOUSING_SERIES_FIELDS);
+
+    expect(years).toHaveLength(2);
+    expect(years[1]).toMatchObject({ year: 2023, month: 1, months: 2, complete: false, salesVolume: null });
+    expect(years[1]).not.toHaveProperty('quarter');
+  });
+
+  it('recomputes YoY changes on the resampled series and drops MoM changes', () => {
+    const quarters = resample(monthlyRows(24), 3, HOUSING_SERIES_FIELDS);
+
+    expect(quarters).toHaveLength(8);
+    quarters.slice(0, 4).forEach((quarter) => expect(quarter.priceChangeYoY).toBeNull());
+    // Q1 2023 averages $313,000 against $301,000 a year earlier
+    expect(quarters[4].priceChangeYoY).toBe(3.99);
+    expect(quarters[4]).not.toHaveProperty('priceChangeMoM');
+  });
+});
+
+describe('seriesStatistics', () => {
+  it('needs two points', () => {
+    expect(seriesStatistics(growing([0], 0.01), 12)).toEqual({ cagr: null, maxDrawdown: null, volatility: null });
+  });
+
+  it('annualizes growth over the months between the first and last point', () => {
+    const { cagr, maxDrawdown } = seriesStatistics(growing([0, 12, 24], 0.01), 12);
+
+    expect(cagr).toBe(12.68);
+    expect(maxDrawdown).toBe(0);
+  });
+
+  it('measures the largest decline from a peak', () => {
+    const points = [100, 120, 90, 110, 60, 130].map((value, i) => ({ index: i + 1, value }));
+
+    expect(seriesStatistics(points, 12).maxDrawdown).toBe(50);
+  });
+
+  it('annualizes the volatility of monthly returns', () => {
+    // Returns alternate between +2% and -2%
+    const values = [100, 102, 99.96, 101.9592, 99.920016];
+    const points = values.map((value, i) => ({ index: i + 1, value }));
+    const returns = [0.02, -0.02, 0.02, -0.02];
+    const sd = Math.sqrt(returns.reduce((sum, value) => sum + value ** 2, 0) / 3);
+
+    expect(seriesStatistics(points, 12).volatility).toBeCloseTo(sd * Math.sqrt(12) * 100, 1);
+  });
+
+  it('ignores returns across gaps in the series', () => {
+    // Steady 1% a month, with a year missing after June
+    const points = growing([0, 1, 2, 3, 4, 5, 18, 19, 20], 0.01);
+
+    expect(seriesStatistics(points, 12).volatility).toBe(0);
+  });
+
+  it('uses the period length of the series', () => {
+    // Quarterly points three months apart are consecutive
+    const quarterly = growing([0, 3, 6, 9, 12], 0.01);
+
+    expect(seriesStatistics(quarterly, 4).volatility).toBe(0);
+    expect(seriesStatistics(quarterly, 12).volatility).toBeNull();
+  });
+});
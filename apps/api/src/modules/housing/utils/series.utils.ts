@@ -0,0 +1,245 @@
+export interface ChangeRule {
+  field: string;
+  yoy: string;
+  mom: string;
+  // Rates change by percentage points; levels by percent
+  points?: boolean;
+}
+
+export const HOUSING_CHANGE_RULES: ChangeRule[] = [
+  { field: 'medianHomePrice', yoy: 'priceChangeYoY', mom: 'priceChangeMoM' },
+  { field: 'inventoryCount', yoy: 'inventoryChangeYoY', mom: 'inventoryChangeMoM' },
+];
+
+export const RENT_CHANGE_RULES: ChangeRule[] = [
+  { field: 'medianRent', yoy: 'rentChangeYoY', mom: 'rentChangeMoM' },
+  { field: 'vacancyRate', yoy: 'vacancyChangeYoY', mom: 'vacancyChangeMoM', points: true },
+];
+
+type SeriesPoint = Record<string, unknown>;
+
+/** One month, or the first month of a bucket, of a county or aggregate series. */
+export interface PeriodPoint {
+  year: number;
+  month: number;
+  [field: string]: unknown;
+}
+
+/** Months since year 0, so consecutive months differ by one across year ends. */
+export function periodIndex(year: number, month: number): number {
+  return year * 12 + month;
+}
+
+/** Inverse of periodIndex. */
+export function periodOf(index: number): { year: number; month: number } {
+  return { year: Math.floor((index - 1) / 12), month: ((index - 1) % 12) + 1 };
+}
+
+/** YYYY-MM label of a period index. */
+export function formatPeriod(index: number): string {
+  const { year, month } = periodOf(index);
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+export function roundTo(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * YoY and MoM changes of a point against the same month a year earlier and
+ * the month before. Changes whose comparison point is missing are left out.
+ */
+export function seriesChanges(
+  point: SeriesPoint,
+  lastMonth: SeriesPoint | undefined,
+  lastYear: SeriesPoint | undefined,
+  rules: ChangeRule[],
+): Record<string, number> {
+  const changes: Record<string, number> = {};
+
+  for (const rule of rules) {
+    const yoy = change(point, lastYear, rule);
+    const mom = change(point, lastMonth, rule);
+
+    if (yoy !== null) changes[rule.yoy] = yoy;
+    if (mom !== null) changes[rule.mom] = mom;
+  }
+
+  return changes;
+}
+
+function change(point: SeriesPoint, previous: SeriesPoint | undefined, rule: ChangeRule): number | null {
+  const current = point[rule.field];
+  const prior = previous?.[rule.field];
+
+  if (typeof current !== 'number' || typeof prior !== 'number') {
+    return null;
+  }
+
+  if (rule.points) {
+    return roundTo(current - prior);
+  }
+
+  return prior === 0 ? null : roundTo(((current - prior) / prior) * 100);
+}
+
+export interface ResampleFields {
+  // Levels and rates, averaged within a bucket
+  mean: string[];
+  // Flows, summed within a bucket
+  sum: string[];
+  changes: ChangeRule[];
+}
+
+export const HOUSING_SERIES_FIELDS: ResampleFields = {
+  mean: ['medianHomePrice', 'averageHomePrice', 'pricePerSqft', 'inventoryCount', 'daysOnMarket'],
+  sum: ['salesVolume'],
+  changes: HOUSING_CHANGE_RULES,
+};
+
+export const RENT_SERIES_FIELDS: ResampleFields = {
+  mean: [
+    'studioRent',
+    'oneBedRent',
+    'twoBedRent',
+    'threeBedRent',
+    'fourBedRent',
+    'medianRent',
+    'averageRent',
+    'vacancyRate',
+    'availableUnits',
+  ],
+  sum: [],
+  changes: RENT_CHANGE_RULES,
+};
+
+export const TREND_SERIES_FIELDS: ResampleFields = {
+  mean: [
+    'rentToIncomeRatio',
+    'priceToIncomeRatio',
+    'affordabilityIndex',
+    'supplyDemandIndex',
+    'unemploymentRate',
+    'populationGrowth',
+    'jobGrowth',
+    'predictedPriceChange',
+    'predictedRentChange',
+    'confidenceScore',
+  ],
+  sum: ['constructionPermits', 'newListings'],
+  changes: [],
+};
+
+/**
+ * Groups a monthly series into calendar buckets of `months` (3 for quarters,
+ * 12 for years). Each bucket is labelled by its first month and reports how
+ * many months it covers. YoY changes are recomputed on the bucketed series;
+ * MoM changes do not apply and are dropped.
+ */
+export function resample(
+  rows: Record<string, any>[],
+  months: number,
+  fields: ResampleFields,
+): PeriodPoint[] {
+  const buckets = new Map<number, Record<string, any>[]>();
+
+  for (const row of rows) {
+    const startMonth = Math.floor((row.month - 1) / months) * months + 1;
+    const index = periodIndex(row.year, startMonth);
+    buckets.set(index, [...(buckets.get(index) ?? []), row]);
+  }
+
+  const points = new Map<number, PeriodPoint>();
+
+  for (const index of Array.from(buckets.keys()).sort((a, b) => a - b)) {
+    const bucket = buckets.get(index);
+    const { year, month } = bucket[0];
+    const startMonth = Math.floor((month - 1) / months) * months + 1;
+    const point: PeriodPoint = {
+      year,
+      month: startMonth,
+      ...(months === 3 && { quarter: (startMonth + 2) / 3 }),
+      months: bucket.length,
+      complete: bucket.length === months,
+    };
+
+    for (const field of fields.mean) {
+      const values = bucket.map((row) => row[field]).filter((value) => typeof value === 'number');
+      point[field] = values.length > 0
+        ? roundTo(values.reduce((sum, value) => sum + value, 0) / values.length)
+        : null;
+    }
+
+    for (const field of fields.sum) {
+      const values = bucket.map((row) => row[field]).filter((value) => typeof value === 'number');
+      point[field] = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+    }
+
+    points.set(index, point);
+  }
+
+  return Array.from(points.entries()).map(([index, point]) => {
+    const changes = seriesChanges(point, undefined, points.get(index - 12), fields.changes);
+
+    return {
+      ...point,
+      ...Object.fromEntries(fields.changes.map((rule) => [rule.yoy, changes[rule.yoy] ?? null])),
+    };
+  });
+}
+
+export interface SeriesStatistics {
+  // Compound annual growth rate, percent
+  cagr: number | null;
+  // Largest peak-to-trough decline, percent of the peak
+  maxDrawdown: number | null;
+  // Annualized standard deviation of period-over-period returns, percent;
+  // only returns between points one period apart count, so gaps are skipped
+  volatility: number | null;
+}
+
+/** Growth and risk statistics of a price series ordered by period index. */
+export function seriesStatistics(
+  points: { index: number; value: number }[],
+  periodsPerYear: number,
+): SeriesStatistics {
+  if (points.length < 2) {
+    return { cagr: null, maxDrawdown: null, volatility: null };
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const years = (last.index - first.index) / 12;
+  const cagr = years > 0 && first.value > 0
+    ? roundTo((Math.pow(last.value / first.value, 1 / years) - 1) * 100)
+    : null;
+
+  let peak = first.value;
+  let maxDrawdown = 0;
+  for (const { value } of points) {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - value) / peak) * 100);
+    }
+  }
+
+  const periodMonths = 12 / periodsPerYear;
+  const returns = points
+    .slice(1)
+    .map((point, i) => {
+      const previous = points[i];
+      return point.index - previous.index === periodMonths && previous.value > 0
+        ? point.value / previous.value - 1
+        : null;
+    })
+    .filter((value): value is number => value !== null);
+  let volatility: number | null = null;
+  if (returns.length >= 2) {
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+    volatility = roundTo(Math.sqrt(variance * periodsPerYear) * 100);
+  }
+
+  return { cagr, maxDrawdown: roundTo(maxDrawdown), volatility };
+}
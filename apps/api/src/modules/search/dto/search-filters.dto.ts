@@ -29,6 +29,12 @@ export class SearchFiltersDto {
   @IsString({ each: true })
   counties?: string[];
 
+  @ApiProperty({ required: false, description: 'Metro (CBSA) codes to filter by' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  metros?: string[];
+
   @ApiProperty({ required: false, description: 'Minimum home price' })
   @IsOptional()
   @Type(() => Number)
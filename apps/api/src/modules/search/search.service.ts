@@ -3,7 +3,7 @@ import { PrismaService } from '../database/prisma.service';
 import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
 import { UpdateSavedSearchDto } from './dto/update-saved-search.dto';
 import { SearchFiltersDto } from './dto/search-filters.dto';
-import { Prisma } from '@prisma/client';
+import { DataSource, Prisma } from '@prisma/client';
 
 @Injectable()
 export class SearchService {
@@ -13,6 +13,7 @@ export class SearchService {
     const {
       states,
       counties,
+      metros,
       minPrice,
       maxPrice,
       minRent,
@@ -48,15 +49,23 @@ export class SearchService {
       };
     }
 
-    // Price filters for housing data
-    const housingWhere: any = { ...whereConditions };
+    if (metros && metros.length > 0) {
+      whereConditions.county = {
+        ...whereConditions.county,
+        metro: { cbsaCode: { in: metros } },
+      };
+    }
+
+    // Price filters for housing data; only the reconciled row of each
+    // county-month is searched, not one row per source
+    const housingWhere: any = { ...whereConditions, source: DataSource.CALCULATED };
     if (minPrice) housingWhere.medianHomePrice = { gte: minPrice };
     if (maxPrice) housingWhere.medianHomePrice = { ...housingWhere.medianHomePrice, lte: maxPrice };
     if (priceChangeMin) housingWhere.priceChangeYoY = { gte: priceChangeMin };
     if (priceChangeMax) housingWhere.priceChangeYoY = { ...housingWhere.priceChangeYoY, lte: priceChangeMax };
 
     // Rent filters
-    const rentWhere: any = { ...whereConditions };
+    const rentWhere: any = { ...whereConditions, source: DataSource.CALCULATED };
     if (minRent) rentWhere.medianRent = { gte: minRent };
     if (maxRent) rentWhere.medianRent = { ...rentWhere.medianRent, lte: maxRent };
 
@@ -372,11 +381,15 @@ export class SearchService {
     let total = 0;
 
     if (!dataType || dataType === 'housing') {
-      total += await this.prisma.housingData.count({ where: whereConditions });
+      total += await this.prisma.housingData.count({
+        where: { ...whereConditions, source: DataSource.CALCULATED },
+      });
     }
 
     if (!dataType || dataType === 'rent') {
-      total += await this.prisma.rentData.count({ where: whereConditions });
+      total += await this.prisma.rentData.count({
+        where: { ...whereConditions, source: DataSource.CALCULATED },
+      });
     }
 
     if (!dataType || dataType === 'trends') {
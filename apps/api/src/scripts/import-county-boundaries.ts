@@ -0,0 +1,74 @@
+import { parseArgs } from 'util';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import configuration from '../config/configuration';
+import { DatabaseModule } from '../modules/database/database.module';
+import {
+  CountyBoundaryService,
+  DEFAULT_SIMPLIFICATION_LEVELS,
+  SimplificationLevel,
+} from '../modules/housing/services/county-boundary.service';
+
+/**
+ * Usage:
+ *   pnpm --filter @housing-trends/api import:boundaries <counties.geojson> [--levels low:0.05:0,high:0.001:9]
+ *
+ * Shapefiles must be converted to GeoJSON (EPSG:4326) first, e.g.
+ *   ogr2ogr -f GeoJSON -t_srs EPSG:4326 counties.geojson tl_2023_us_county.shp
+ */
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true, load: [configuration] }), DatabaseModule],
+  providers: [CountyBoundaryService],
+})
+class BoundaryImportModule {}
+
+function parseLevels(value?: string): SimplificationLevel[] {
+  if (!value) {
+    return DEFAULT_SIMPLIFICATION_LEVELS;
+  }
+
+  return value.split(',').map((entry) => {
+    const [name, tolerance, minZoom] = entry.split(':');
+    const level = { name, tolerance: Number(tolerance), minZoom: Number(minZoom ?? 0) };
+
+    if (!name || !Number.isFinite(level.tolerance) || !Number.isFinite(level.minZoom)) {
+      throw new Error(`Invalid level "${entry}"; expected name:tolerance:minZoom`);
+    }
+
+    return level;
+  });
+}
+
+async function bootstrap() {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    options: { levels: { type: 'string' } },
+    allowPositionals: true,
+  });
+  const [filePath] = positionals;
+
+  if (!filePath) {
+    console.error('Usage: import-county-boundaries <counties.geojson> [--levels name:tolerance:minZoom,...]');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(BoundaryImportModule);
+
+  try {
+    const levels = parseLevels(values.levels);
+    const result = await app.get(CountyBoundaryService).importFromFile(filePath, levels);
+
+    console.log(`✅ Updated ${result.updated} of ${result.features} features`);
+    if (result.unmatched.length > 0) {
+      console.log(`⚠️  No County row for FIPS: ${result.unmatched.join(', ')}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+import { parseArgs } from 'util';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import configuration from '../config/configuration';
+import { DatabaseModule } from '../modules/database/database.module';
+import { MetroService } from '../modules/housing/services/metro.service';
+
+/**
+ * Usage:
+ *   pnpm --filter @housing-trends/api import:metros <list1.xlsx> [--delineation 2023-07]
+ *
+ * The file is the OMB "CBSAs, Metropolitan Divisions, and CSAs" delineation
+ * (list1) published by the Census Bureau, as XLSX or CSV.
+ */
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true, load: [configuration] }), DatabaseModule],
+  providers: [MetroService],
+})
+class MetroImportModule {}
+
+async function bootstrap() {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    options: { delineation: { type: 'string' } },
+    allowPositionals: true,
+  });
+  const [filePath] = positionals;
+
+  if (!filePath) {
+    console.error('Usage: import-metro-delineation <list1.xlsx> [--delineation YYYY-MM]');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(MetroImportModule);
+
+  try {
+    const result = await app.get(MetroService).importDelineation(filePath, values.delineation);
+
+    console.log(
+      `✅ Imported ${result.metros} CBSAs, linked ${result.linked} counties ` +
+        `(${result.unlinked} unlinked, ${result.removed} metros removed)`,
+    );
+    if (result.unmatched.length > 0) {
+      console.log(`⚠️  No County row for FIPS: ${result.unmatched.join(', ')}`);
+    }
+    console.log('ℹ️  Rebuild aggregates (POST /housing/admin/aggregates/rebuild) to refresh metro series');
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
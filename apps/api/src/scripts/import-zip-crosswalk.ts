@@ -0,0 +1,52 @@
+import { parseArgs } from 'util';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import configuration from '../config/configuration';
+import { DatabaseModule } from '../modules/database/database.module';
+import { ZctaService } from '../modules/housing/services/zcta.service';
+
+/**
+ * Usage:
+ *   pnpm --filter @housing-trends/api import:zips <ZIP_COUNTY_032024.xlsx> [--quarter 2024-Q1]
+ *
+ * The file is the HUD USPS ZIP_COUNTY crosswalk, as XLSX or CSV, downloaded
+ * ahead of time (the HUD API needs a token).
+ */
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true, load: [configuration] }), DatabaseModule],
+  providers: [ZctaService],
+})
+class ZipImportModule {}
+
+async function bootstrap() {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    options: { quarter: { type: 'string' } },
+    allowPositionals: true,
+  });
+  const [filePath] = positionals;
+
+  if (!filePath) {
+    console.error('Usage: import-zip-crosswalk <ZIP_COUNTY.xlsx> [--quarter YYYY-Qn]');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(ZipImportModule);
+
+  try {
+    const result = await app.get(ZctaService).importCrosswalk(filePath, values.quarter);
+
+    console.log(`✅ Imported ${result.zips} ZIP codes with ${result.links} county links`);
+    if (result.unmatched.length > 0) {
+      console.log(`⚠️  No County row for FIPS: ${result.unmatched.join(', ')}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
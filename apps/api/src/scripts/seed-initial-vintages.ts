@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { IngestionTable } from '@prisma/client';
+import configuration from '../config/configuration';
+import { DatabaseModule } from '../modules/database/database.module';
+import { VintageService } from '../modules/housing/services/vintage.service';
+
+/**
+ * Usage:
+ *   pnpm --filter @housing-trends/api seed:vintages
+ *
+ * Gives every HousingData, RentData and MarketTrend row stored before
+ * vintages were introduced its first vintage. Run once when deploying
+ * vintages, before the next sync; rerunning only picks up rows still missing
+ * one.
+ */
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true, load: [configuration] }), DatabaseModule],
+  providers: [VintageService],
+})
+class VintageSeedModule {}
+
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(VintageSeedModule);
+
+  try {
+    for (const table of Object.values(IngestionTable)) {
+      const created = await app.get(VintageService).seedInitial(table);
+      console.log(`✅ Seeded ${created} ${table} vintages`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
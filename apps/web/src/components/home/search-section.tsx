@@ -18,12 +18,16 @@ interface SearchSectionProps {
   onCountySelect: (countyId: string) => void;
 }
 
+const ZIP_PATTERN = /^\d{5}$/;
+
 export function SearchSection({ onCountySelect }: SearchSectionProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedState, setSelectedState] = useState('');
+  const zip = ZIP_PATTERN.test(searchTerm.trim()) ? searchTerm.trim() : null;
 
   const { data: counties } = useQuery({
     queryKey: ['counties', selectedState, searchTerm],
+    enabled: !zip,
     queryFn: async () => {
       const params = new URLSearchParams();
       if (selectedState) params.append('state', selectedState);
@@ -37,6 +41,19 @@ export function SearchSection({ onCountySelect }: SearchSectionProps) {
     },
   });
 
+  const { data: zipData, isError: zipNotFound } = useQuery({
+    queryKey: ['zip', zip],
+    enabled: !!zip,
+    retry: false,
+    queryFn: async () => {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/housing/zip/${zip}`
+      );
+      if (!response.ok) throw new Error('Failed to resolve ZIP code');
+      return response.json();
+    },
+  });
+
   const states = [
     { code: 'CA', name: 'California' },
     { code: 'TX', name: 'Texas' },
@@ -71,17 +88,20 @@ export function SearchSection({ onCountySelect }: SearchSectionProps) {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="search">Search County</Label>
+            <Label htmlFor="search">Search County or ZIP</Label>
             <div className="relative">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 id="search"
-                placeholder="Enter county name..."
+                placeholder="Enter county name or ZIP..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-8"
               />
             </div>
+            {zip && zipNotFound && (
+              <p className="text-sm text-muted-foreground">No counties found for ZIP {zip}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -91,11 +111,17 @@ export function SearchSection({ onCountySelect }: SearchSectionProps) {
                 <SelectValue placeholder="Select a county" />
               </SelectTrigger>
               <SelectContent>
-                {counties?.slice(0, 10).map((county: any) => (
-                  <SelectItem key={county.id} value={county.id}>
-                    {county.name}, {county.state}
-                  </SelectItem>
-                ))}
+                {zip
+                  ? zipData?.counties.map(({ county, allocation }: any) => (
+                      <SelectItem key={county.id} value={county.id}>
+                        {county.name}, {county.state} ({Math.round(allocation.residential * 100)}% of {zip})
+                      </SelectItem>
+                    ))
+                  : counties?.slice(0, 10).map((county: any) => (
+                      <SelectItem key={county.id} value={county.id}>
+                        {county.name}, {county.state}
+                      </SelectItem>
+                    ))}
               </SelectContent>
             </Select>
           </div>
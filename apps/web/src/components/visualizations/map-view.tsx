@@ -58,14 +58,15 @@ export function MapView({ selectedCounty, onCountySelect }: MapViewProps) {
     return <Skeleton className="h-[600px] w-full" />;
   }
 
-  // Mock data for demonstration - in production, this would come from the API
-  const mockCounties: County[] = counties?.slice(0, 50).map((county: any) => ({
-    ...county,
-    latitude: county.latitude || 39.8283 + (Math.random() - 0.5) * 20,
-    longitude: county.longitude || -98.5795 + (Math.random() - 0.5) * 40,
-    medianHomePrice: Math.floor(Math.random() * 500000) + 200000,
-    medianRent: Math.floor(Math.random() * 2000) + 1000,
-  })) || [];
+  // Counties without imported boundaries have no position and are left off the map
+  const mockCounties: County[] = counties
+    ?.filter((county: any) => county.latitude != null && county.longitude != null)
+    .slice(0, 50)
+    .map((county: any) => ({
+      ...county,
+      medianHomePrice: Math.floor(Math.random() * 500000) + 200000,
+      medianRent: Math.floor(Math.random() * 2000) + 1000,
+    })) || [];
 
   const getMarkerColor = (price: number) => {
     if (price < 300000) return '#10b981'; // green
@@ -23,15 +23,32 @@ interface TrendsChartProps {
   countyId: string | null;
 }
 
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+
+// Forecast bands are [lower, upper] pairs
+const formatTooltip = (value: number | [number, number]) =>
+  Array.isArray(value)
+    ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}`
+    : formatCurrency(value);
+
+const monthKey = (item: { year: number; month: number }) =>
+  `${item.year}-${String(item.month).padStart(2, '0')}`;
+
 export function TrendsChart({ countyId }: TrendsChartProps) {
   const [period, setPeriod] = useState('1y');
+  const [dollars, setDollars] = useState('nominal');
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ['trends', countyId, period],
+    queryKey: ['trends', countyId, period, dollars],
     queryFn: async () => {
       if (!countyId) return null;
       const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/housing/trends/${countyId}?period=${period}`
+        `${process.env.NEXT_PUBLIC_API_URL}/api/housing/trends/${countyId}?period=${period}&dollars=${dollars}`
       );
       if (!response.ok) throw new Error('Failed to fetch trends');
       return response.json();
@@ -39,6 +56,22 @@ export function TrendsChart({ countyId }: TrendsChartProps) {
     enabled: !!countyId,
   });
 
+  // Forecasts are fitted on nominal prices, so they are only drawn in nominal mode
+  const showForecast = dollars === 'nominal';
+
+  const { data: forecast } = useQuery({
+    queryKey: ['forecast', countyId],
+    queryFn: async () => {
+      if (!countyId) return null;
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/housing/forecast/${countyId}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch forecast');
+      return response.json();
+    },
+    enabled: !!countyId && showForecast,
+  });
+
   if (!countyId) {
     return (
       <div className="flex items-center justify-center h-96 text-muted-foreground">
@@ -65,27 +98,80 @@ export function TrendsChart({ countyId }: TrendsChartProps) {
   }
 
   const chartData = data?.housingData?.map((item: any, index: number) => ({
-    date: `${item.year}-${String(item.month).padStart(2, '0')}`,
+    date: monthKey(item),
     homePrice: item.medianHomePrice,
     rent: data.rentData[index]?.medianRent || 0,
     inventory: item.inventoryCount,
   })) || [];
 
+  // Append the forecast paths after the last observed month, starting each
+  // from its last actual value so the line and band join the history
+  if (showForecast && chartData.length > 0) {
+    const rows = new Map<string, any>(chartData.map((row: any) => [row.date, row]));
+    const series = [
+      { key: 'homePrice', forecast: forecast?.homePrice },
+      { key: 'rent', forecast: forecast?.rent },
+    ];
+
+    for (const { key, forecast: path } of series) {
+      const origin = path && rows.get(monthKey(path.origin));
+      if (!origin) continue;
+
+      origin[`${key}Forecast`] = origin[key];
+      origin[`${key}Band`] = [origin[key], origin[key]];
+
+      for (const point of path.path) {
+        const date = monthKey(point);
+        const row = rows.get(date) ?? { date };
+        row[`${key}Forecast`] = point.value;
+        row[`${key}Band`] = [point.lower80, point.upper80];
+        if (!rows.has(date)) {
+          rows.set(date, row);
+          chartData.push(row);
+        }
+      }
+    }
+  }
+
+  const hasForecast = chartData.some(
+    (row: any) => row.homePriceForecast !== undefined || row.rentForecast !== undefined
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h3 className="text-lg font-semibold">
-          {data?.county?.name}, {data?.county?.state}
-        </h3>
-        <Tabs value={period} onValueChange={setPeriod}>
-          <TabsList>
-            <TabsTrigger value="1m">1M</TabsTrigger>
-            <TabsTrigger value="3m">3M</TabsTrigger>
-            <TabsTrigger value="6m">6M</TabsTrigger>
-            <TabsTrigger value="1y">1Y</TabsTrigger>
-            <TabsTrigger value="5y">5Y</TabsTrigger>
-          </TabsList>
-        </Tabs>
+        <div>
+          <h3 className="text-lg font-semibold">
+            {data?.county?.name}, {data?.county?.state}
+          </h3>
+          {data?.dollars && (
+            <p className="text-xs text-muted-foreground">
+              Inflation-adjusted to {data.dollars.base} dollars
+            </p>
+          )}
+          {hasForecast && (
+            <p className="text-xs text-muted-foreground">
+              Dashed lines are 12-month forecasts; shading is the 80% prediction interval
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Tabs value={dollars} onValueChange={setDollars}>
+            <TabsList>
+              <TabsTrigger value="nominal">Nominal</TabsTrigger>
+              <TabsTrigger value="real">Real</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Tabs value={period} onValueChange={setPeriod}>
+            <TabsList>
+              <TabsTrigger value="1m">1M</TabsTrigger>
+              <TabsTrigger value="3m">3M</TabsTrigger>
+              <TabsTrigger value="6m">6M</TabsTrigger>
+              <TabsTrigger value="1y">1Y</TabsTrigger>
+              <TabsTrigger value="5y">5Y</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -99,15 +185,7 @@ export function TrendsChart({ countyId }: TrendsChartProps) {
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="date" />
                 <YAxis />
-                <Tooltip
-                  formatter={(value: number) =>
-                    new Intl.NumberFormat('en-US', {
-                      style: 'currency',
-                      currency: 'USD',
-                      maximumFractionDigits: 0,
-                    }).format(value)
-                  }
-                />
+                <Tooltip formatter={formatTooltip} />
                 <Area
                   type="monotone"
                   dataKey="homePrice"
@@ -115,6 +193,26 @@ export function TrendsChart({ countyId }: TrendsChartProps) {
                   fill="#3b82f6"
                   fillOpacity={0.3}
                 />
+                {hasForecast && (
+                  <Area
+                    type="monotone"
+                    dataKey="homePriceBand"
+                    stroke="none"
+                    fill="#3b82f6"
+                    fillOpacity={0.15}
+                    connectNulls
+                  />
+                )}
+                {hasForecast && (
+                  <Area
+                    type="monotone"
+                    dataKey="homePriceForecast"
+                    stroke="#3b82f6"
+                    strokeDasharray="5 5"
+                    fill="none"
+                    connectNulls
+                  />
+                )}
               </AreaChart>
             </ResponsiveContainer>
           </CardContent>
@@ -130,15 +228,7 @@ export function TrendsChart({ countyId }: TrendsChartProps) {
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="date" />
                 <YAxis />
-                <Tooltip
-                  formatter={(value: number) =>
-                    new Intl.NumberFormat('en-US', {
-                      style: 'currency',
-                      currency: 'USD',
-                      maximumFractionDigits: 0,
-                    }).format(value)
-                  }
-                />
+                <Tooltip formatter={formatTooltip} />
                 <Area
                   type="monotone"
                   dataKey="rent"
@@ -146,6 +236,26 @@ export function TrendsChart({ countyId }: TrendsChartProps) {
                   fill="#10b981"
                   fillOpacity={0.3}
                 />
+                {hasForecast && (
+                  <Area
+                    type="monotone"
+                    dataKey="rentBand"
+                    stroke="none"
+                    fill="#10b981"
+                    fillOpacity={0.15}
+                    connectNulls
+                  />
+                )}
+                {hasForecast && (
+                  <Area
+                    type="monotone"
+                    dataKey="rentForecast"
+                    stroke="#10b981"
+                    strokeDasharray="5 5"
+                    fill="none"
+                    connectNulls
+                  />
+                )}
               </AreaChart>
             </ResponsiveContainer>
           </CardContent>
@@ -13,8 +13,6 @@ import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as lambdaNodeJs from 'aws-cdk-lib/aws-lambda-nodejs';
-import * as events from 'aws-cdk-lib/aws-events';
-import * as targets from 'aws-cdk-lib/aws-events-targets';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
 import * as sns from 'aws-cdk-lib/aws-sns';
@@ -381,38 +379,8 @@ export class HousingTrendsStack extends cdk.Stack {
 
     emailQueue.grantConsumeMessages(emailProcessor);
 
-    // Data sync Lambda
-    const dataSync = new lambdaNodeJs.NodejsFunction(this, 'DataSync', {
-      functionName: `housing-trends-${environment}-data-sync`,
-      entry: 'apps/functions/data-sync/index.ts',
-      handler: 'handler',
-      runtime: lambda.Runtime.NODEJS_20_X,
-      vpc: this.vpc,
-      vpcSubnets: {
-        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
-      },
-      environment: {
-        DATABASE_URL: dbSecret.secretValueFromJson('connectionString').unsafeUnwrap(),
-        REDIS_URL: `redis://${this.cache.attrRedisEndpointAddress}:${this.cache.attrRedisEndpointPort}`,
-        DATA_BUCKET: dataBucket.bucketName,
-      },
-      timeout: cdk.Duration.minutes(15),
-      memorySize: isProd ? 1024 : 512,
-    });
-
-    dataBucket.grantReadWrite(dataSync);
-
-    // Schedule data sync
-    const dataSyncRule = new events.Rule(this, 'DataSyncSchedule', {
-      ruleName: `housing-trends-${environment}-data-sync`,
-      schedule: events.Schedule.cron({
-        minute: '0',
-        hour: '2',
-        weekDay: 'MON',
-      }),
-    });
-
-    dataSyncRule.addTarget(new targets.LambdaFunction(dataSync));
+    // Data syncs and their schedules run in the API (SYNC_SCHEDULER_ENABLED),
+    // so there is no sync Lambda or EventBridge rule
 
     // =================
     // CloudWatch Alarms